@@ -7,8 +7,13 @@
  * Uses expo-auth-session for cross-platform compatibility (iOS, Android, Web)
  */
 import * as AuthSession from "expo-auth-session";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import * as SecureStore from "expo-secure-store";
+import * as Crypto from "expo-crypto";
+import * as WebBrowser from "expo-web-browser";
+import {
+  AppState,
+  AppStateStatus,
+  NativeEventSubscription,
+} from "react-native";
 import {
   BlitzWareConfig,
   BlitzWareUser,
@@ -16,12 +21,60 @@ import {
   BlitzWareError,
   AuthErrorCode,
   TokenIntrospectionResponse,
+  TokenStorage,
+  LogoutResult,
+  LogoutOptions,
+  LoginOptions,
+  BlitzWareAuthEvent,
+  BlitzWareAuthEventHandler,
+  DeviceAuthorization,
+  AccessTokenOptions,
+  TokenExchangeOptions,
+  TokenExchangeResult,
+  ServerMetadata,
 } from "./types";
-import axios from "axios";
+import { AsyncStorageTokenStorage, SecureStoreTokenStorage } from "./storage";
+import { IdTokenValidator } from "./IdTokenValidator";
+import { DpopProofGenerator } from "./DpopProofGenerator";
+import { AuthEventEmitter } from "./events";
+import { AuthLogger } from "./logger";
+import { ActiveSpan, SpanRecorder } from "./instrumentation";
+import { fromOAuthResponse, toBlitzWareError } from "./errors";
+import { isTokenExpired } from "./utils";
+import {
+  ResolvedRetryPolicy,
+  attachRetryInterceptor,
+  resolveRetryPolicy,
+  withRetry,
+} from "./retry";
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  CreateAxiosDefaults,
+  InternalAxiosRequestConfig,
+} from "axios";
 import { Buffer } from "buffer";
 
 const DEFAULT_AUTH_BASE_URL = "https://auth.blitzware.xyz/api/auth/";
 const DEFAULT_SCOPES = ["openid", "profile", "email"];
+const DEFAULT_ID_TOKEN_LEEWAY = 60;
+const DEFAULT_CLOCK_SKEW_LEEWAY = 0;
+const DEFAULT_AUTO_REFRESH_BEFORE_EXPIRY = 60;
+const DEFAULT_INTROSPECTION_TTL = 30;
+const DEFAULT_DEVICE_POLL_INTERVAL = 5;
+const DEFAULT_DISCOVERY_CACHE_TTL = 24 * 60 * 60;
+// How long a stale or fallback discovery result is used before loading again
+const DISCOVERY_RETRY_DELAY = 60000;
+// Wait before retrying a background refresh that failed on the network
+const AUTO_REFRESH_RETRY_DELAY = 30000;
+// Minimum time between a refresh and the next background refresh
+const MIN_AUTO_REFRESH_INTERVAL = 10000;
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+const TOKEN_EXCHANGE_GRANT_TYPE =
+  "urn:ietf:params:oauth:grant-type:token-exchange";
+// setTimeout overflows for delays above 2^31 - 1 ms
+const MAX_TIMER_DELAY = 2147483647;
 
 const normalizeAuthBaseUrl = (authBaseUrl?: string): string => {
   const value = authBaseUrl || DEFAULT_AUTH_BASE_URL;
@@ -40,6 +93,39 @@ const normalizeAuthBaseUrl = (authBaseUrl?: string): string => {
   }
 };
 
+const SUPPORTED_RESPONSE_TYPES = ["code", "token", "code id_token"];
+
+/**
+ * Reject response types and option combinations the client cannot honor
+ */
+const validateResponseType = (config: BlitzWareConfig): void => {
+  const responseType = config.responseType || "code";
+  const fail = (message: string) => {
+    throw new BlitzWareError(message, AuthErrorCode.CONFIGURATION_ERROR);
+  };
+
+  if (!SUPPORTED_RESPONSE_TYPES.includes(responseType)) {
+    fail(`Unsupported responseType: ${responseType}`);
+  }
+
+  if (
+    responseType === "code id_token" &&
+    !(config.scopes || DEFAULT_SCOPES).includes("openid")
+  ) {
+    fail('responseType "code id_token" requires the "openid" scope');
+  }
+
+  if (responseType === "token") {
+    // Implicit tokens come through the browser, without refresh token or proof
+    if (config.autoRefresh) {
+      fail('autoRefresh is not available with responseType "token"');
+    }
+    if (config.dpop) {
+      fail('dpop is not available with responseType "token"');
+    }
+  }
+};
+
 const buildAuthUrl = (authBaseUrl: string, path: string): string =>
   `${authBaseUrl}${path.replace(/^\/+/, "")}`;
 
@@ -48,148 +134,1547 @@ const STORAGE_KEYS = {
   REFRESH_TOKEN: "@blitzware/refresh_token",
   ID_TOKEN: "@blitzware/id_token",
   USER: "@blitzware/user",
+  USER_FETCHED_AT: "@blitzware/user_fetched_at",
   TOKEN_EXPIRY: "@blitzware/token_expiry",
+  RESOURCE_TOKEN_KEYS: "@blitzware/resource_token_keys",
+  GRANTED_SCOPES: "@blitzware/granted_scopes",
+  DISCOVERY: "@blitzware/discovery",
+  CLOCK_OFFSET: "@blitzware/clock_offset",
 } as const;
 
 const SECURE_STORE_KEYS = {
   ACCESS_TOKEN: "blitzware_access_token",
   REFRESH_TOKEN: "blitzware_refresh_token",
+  RESOURCE_TOKEN_PREFIX: "blitzware_resource_token_",
+  DPOP_KEY: "blitzware_dpop_key",
 } as const;
 
+interface ResourceToken {
+  accessToken: string;
+  expiresAt?: number;
+}
+
+interface CachedDiscovery {
+  authBaseUrl: string;
+  document: AuthSession.ProviderMetadata;
+  etag?: string;
+  fetchedAt: number;
+}
+
+const toDiscovery = (
+  document: AuthSession.ProviderMetadata
+): AuthSession.DiscoveryDocument => ({
+  discoveryDocument: document,
+  authorizationEndpoint: document.authorization_endpoint,
+  tokenEndpoint: document.token_endpoint,
+  revocationEndpoint: document.revocation_endpoint,
+  userInfoEndpoint: document.userinfo_endpoint,
+  endSessionEndpoint: document.end_session_endpoint,
+  registrationEndpoint: document.registration_endpoint,
+});
+
+interface TokenEndpointResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+// RFC 8693 section 2.2.1
+interface TokenExchangeResponse extends TokenEndpointResponse {
+  issued_token_type: string;
+}
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _blitzwareRetried?: boolean;
+  _blitzwareDpopRetried?: boolean;
+};
+
+const isTokenRejected = (response: Response): boolean => {
+  if (response.status === 401) {
+    return true;
+  }
+
+  const challenge = response.headers.get("WWW-Authenticate") || "";
+  return /^(Bearer|DPoP)\b.*error="invalid_token"/i.test(challenge);
+};
+
+// A resource server asks for a proof with its current DPoP-Nonce
+const isDpopNonceChallenge = (
+  status: number,
+  challenge?: string | null
+): boolean =>
+  status === 401 && /^DPoP\b.*error="use_dpop_nonce"/i.test(challenge || "");
+
+// Granted scopes plus those in a scope string, without duplicates
+const mergeScopes = (grantedScopes: string[], scope: string): string =>
+  Array.from(
+    new Set([...grantedScopes, ...scope.split(/\s+/).filter(Boolean)])
+  ).join(" ");
+
+// Profile fields that differ between two users; roles are compared regardless of order
+const getChangedUserFields = (
+  previous: BlitzWareUser | null,
+  next: BlitzWareUser
+): string[] => {
+  if (!previous) {
+    return Object.keys(next);
+  }
+
+  const normalize = (key: string, value: unknown) =>
+    JSON.stringify(
+      key === "roles" && Array.isArray(value) ? [...value].sort() : value
+    );
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).filter(
+    (key) => normalize(key, previous[key]) !== normalize(key, next[key])
+  );
+};
+
+const throwIfAborted = (signal?: AbortSignal | null): void => {
+  if (signal?.aborted) {
+    const error = new Error("The operation was aborted.");
+    error.name = "AbortError";
+    throw error;
+  }
+};
+
 export class BlitzWareAuthClient {
   private config: BlitzWareConfig;
   private discovery: AuthSession.DiscoveryDocument | null = null;
+  private discoveryExpiresAt = 0;
+  private discoveryPromise: Promise<AuthSession.DiscoveryDocument> | null =
+    null;
   private authBaseUrl: string;
+  private secureStorage: TokenStorage;
+  private storage: TokenStorage;
+  private idTokenValidator: IdTokenValidator;
+  private dpop: DpopProofGenerator | null;
+  private retryPolicy: ResolvedRetryPolicy;
+  private clockOffset: number | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTokenGrants: Promise<unknown> = Promise.resolve();
+  private resourceTokenPromises = new Map<string, Promise<string | null>>();
+  private autoRefreshEnabled = false;
+  private autoRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastRefreshAt = 0;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private logger: AuthLogger;
+  private events: AuthEventEmitter;
+  private spans: SpanRecorder;
+  private introspectionCache: {
+    token: string;
+    result: TokenIntrospectionResponse;
+    expiresAt: number;
+  } | null = null;
 
   constructor(config: BlitzWareConfig) {
     this.config = config;
+    this.logger = new AuthLogger(
+      config.logger,
+      config.debug ? "debug" : config.logLevel
+    );
+    this.events = new AuthEventEmitter(this.logger);
+    this.spans = new SpanRecorder(config.instrumentation, this.logger);
     this.authBaseUrl = normalizeAuthBaseUrl(config.authBaseUrl);
+    validateResponseType(config);
+    this.retryPolicy = resolveRetryPolicy(config.retryPolicy);
+    // A custom storage receives everything; by default sensitive tokens go to SecureStore
+    this.secureStorage = config.storage || new SecureStoreTokenStorage();
+    this.storage = config.storage || new AsyncStorageTokenStorage();
+    this.idTokenValidator = new IdTokenValidator(
+      () => this.getJwksUri(),
+      () => this.createApiClient()
+    );
+    this.dpop = config.dpop
+      ? new DpopProofGenerator(
+          this.secureStorage,
+          SECURE_STORE_KEYS.DPOP_KEY,
+          () => this.getClockOffset()
+        )
+      : null;
+  }
+
+  /**
+   * Subscribe to an auth event
+   * @returns A function that removes the handler
+   */
+  on<E extends BlitzWareAuthEvent>(
+    event: E,
+    handler: BlitzWareAuthEventHandler<E>
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from an auth event
+   */
+  off<E extends BlitzWareAuthEvent>(
+    event: E,
+    handler: BlitzWareAuthEventHandler<E>
+  ): void {
+    this.events.off(event, handler);
   }
 
   private createApiClient() {
-    return axios.create({
+    const instance = axios.create({
       baseURL: this.authBaseUrl,
       withCredentials: true, // Include session cookies in all requests - DOES NOT WORK
       headers: {
         "Content-Type": "application/json",
       },
     });
+
+    attachRetryInterceptor(instance, this.retryPolicy, async (config) => {
+      this.logger.debug("Retrying request", {
+        method: config.method?.toUpperCase(),
+        url: instance.getUri(config),
+      });
+      // A DPoP proof is single-use; sign a new one for the retry
+      if (this.dpop && config.headers.has("DPoP")) {
+        // Keep the proof bound to the access token the request carries
+        const authorization = config.headers.get("Authorization");
+        const accessToken =
+          typeof authorization === "string" && authorization.startsWith("DPoP ")
+            ? authorization.slice("DPoP ".length)
+            : undefined;
+        config.headers.set(
+          "DPoP",
+          await this.dpop.createProof(
+            config.method || "post",
+            instance.getUri(config),
+            accessToken
+          )
+        );
+      }
+    });
+
+    return instance;
+  }
+
+  /**
+   * Whether a failure is transient, so the request may be repeated
+   */
+  private isRetryableError = (error: unknown): boolean =>
+    this.handleError(error, AuthErrorCode.UNKNOWN_ERROR).isRetryable;
+
+  /**
+   * Create a DPoP proof (RFC 9449) for a request to your API.
+   * The proof is bound to the current access token unless another one is given.
+   * @param method - The HTTP method of the request.
+   * @param url - The absolute request URL.
+   * @param accessToken - The access token sent with the request.
+   * @returns The value for the DPoP request header.
+   * @throws BlitzWareError with CONFIGURATION_ERROR if DPoP is not enabled.
+   */
+  async createDpopProof(
+    method: string,
+    url: string,
+    accessToken?: string
+  ): Promise<string> {
+    if (!this.dpop) {
+      throw new BlitzWareError(
+        "DPoP is not enabled; set dpop: true in the config",
+        AuthErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    const boundToken =
+      accessToken ?? (await this.getStoredToken("access_token"));
+    return this.dpop.createProof(method, url, boundToken || undefined);
+  }
+
+  /**
+   * Authorization headers for an API request: a Bearer token, or with DPoP
+   * enabled a DPoP token plus a proof for this request
+   */
+  private async getAuthorizationHeaders(
+    method: string,
+    url: string,
+    accessToken: string
+  ): Promise<Record<string, string>> {
+    if (!this.dpop) {
+      return { Authorization: `Bearer ${accessToken}` };
+    }
+
+    return {
+      Authorization: `DPoP ${accessToken}`,
+      DPoP: await this.dpop.createProof(method, url, accessToken),
+    };
+  }
+
+  /**
+   * Create an axios instance that sends the access token as a Bearer header,
+   * or as a DPoP-bound token with a proof per request when DPoP is enabled.
+   * A 401 response triggers one forced token refresh and a retry of the request.
+   * Requests that stay unauthorized emit an "error" event.
+   * @param config - Axios defaults for the instance (baseURL, headers, ...).
+   * @returns The configured axios instance.
+   */
+  createAuthenticatedAxios(config: CreateAxiosDefaults = {}): AxiosInstance {
+    const instance = axios.create(config);
+
+    instance.interceptors.request.use(async (requestConfig) => {
+      const accessToken = await this.getAccessToken();
+      if (accessToken) {
+        const headers = await this.getAuthorizationHeaders(
+          requestConfig.method || "get",
+          instance.getUri(requestConfig),
+          accessToken
+        );
+        Object.entries(headers).forEach(([name, value]) =>
+          requestConfig.headers.set(name, value)
+        );
+      }
+      return requestConfig;
+    });
+
+    instance.interceptors.response.use(
+      (response) => {
+        this.dpop?.updateNonce(
+          instance.getUri(response.config),
+          response.headers["dpop-nonce"]
+        );
+        return response;
+      },
+      async (error: AxiosError) => {
+        const requestConfig = error.config as
+          | RetriableRequestConfig
+          | undefined;
+
+        if (!requestConfig || error.response?.status !== 401) {
+          throw error;
+        }
+
+        const dpopNonce = error.response.headers["dpop-nonce"];
+        if (
+          this.dpop &&
+          dpopNonce &&
+          !requestConfig._blitzwareDpopRetried &&
+          isDpopNonceChallenge(401, error.response.headers["www-authenticate"])
+        ) {
+          this.dpop.updateNonce(instance.getUri(requestConfig), dpopNonce);
+          requestConfig._blitzwareDpopRetried = true;
+          // The request interceptor signs a new proof with the nonce
+          return instance.request(requestConfig);
+        }
+
+        if (requestConfig._blitzwareRetried) {
+          const authError = new BlitzWareError(
+            "Request is unauthorized after refreshing the access token",
+            AuthErrorCode.TOKEN_EXPIRED,
+            401
+          );
+          this.events.emit("error", { error: authError });
+          throw authError;
+        }
+
+        requestConfig._blitzwareRetried = true;
+
+        try {
+          await this.refreshAccessToken();
+        } catch (refreshError) {
+          const authError = this.handleError(
+            refreshError,
+            AuthErrorCode.REFRESH_FAILED
+          );
+          this.events.emit("error", { error: authError });
+          throw authError;
+        }
+
+        // The request interceptor attaches the refreshed token
+        return instance.request(requestConfig);
+      }
+    );
+
+    return instance;
+  }
+
+  /**
+   * fetch() replacement that sends the access token as a Bearer header,
+   * or as a DPoP-bound token with a proof when DPoP is enabled.
+   * When the token is rejected (401 or WWW-Authenticate error="invalid_token"),
+   * the token is refreshed and the request is replayed once.
+   * Requests that cannot be authorized emit an "error" event.
+   * @param input - The resource to fetch, as for fetch().
+   * @param init - Request options, as for fetch(). init.signal aborts the refresh too.
+   * @returns The response, as fetch() would return it.
+   */
+  async fetchWithAuth(
+    input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    // Keep an unread copy of Request bodies for replays
+    const template = input instanceof Request ? input.clone() : input;
+    const replayInput = () =>
+      template instanceof Request ? template.clone() : template;
+    const url = input instanceof Request ? input.url : input.toString();
+    const method =
+      init.method || (input instanceof Request ? input.method : "GET");
+
+    const send = async (
+      target: RequestInfo | URL,
+      accessToken: string | null
+    ) => {
+      const headers = new Headers(
+        init.headers ?? (target instanceof Request ? target.headers : undefined)
+      );
+      if (accessToken) {
+        const authHeaders = await this.getAuthorizationHeaders(
+          method,
+          url,
+          accessToken
+        );
+        Object.entries(authHeaders).forEach(([name, value]) =>
+          headers.set(name, value)
+        );
+      }
+      const response = await fetch(target, { ...init, headers });
+      this.dpop?.updateNonce(url, response.headers.get("DPoP-Nonce"));
+      return response;
+    };
+
+    throwIfAborted(init.signal);
+    const initialToken = await this.getAccessToken();
+    let response = await send(input, initialToken);
+
+    if (
+      this.dpop &&
+      response.headers.get("DPoP-Nonce") &&
+      isDpopNonceChallenge(
+        response.status,
+        response.headers.get("WWW-Authenticate")
+      )
+    ) {
+      // The nonce is stored now; sign a new proof with it
+      response = await send(replayInput(), initialToken);
+    }
+
+    if (!isTokenRejected(response)) {
+      return response;
+    }
+
+    let accessToken: string;
+    try {
+      throwIfAborted(init.signal);
+      accessToken = await this.refreshAccessToken();
+      throwIfAborted(init.signal);
+    } catch (refreshError: any) {
+      if (refreshError?.name === "AbortError") {
+        throw refreshError;
+      }
+      this.events.emit("error", {
+        error: this.handleError(refreshError, AuthErrorCode.REFRESH_FAILED),
+      });
+      return response;
+    }
+
+    const retryResponse = await send(replayInput(), accessToken);
+
+    if (isTokenRejected(retryResponse)) {
+      this.events.emit("error", {
+        error: new BlitzWareError(
+          "Request is unauthorized after refreshing the access token",
+          AuthErrorCode.TOKEN_EXPIRED,
+          retryResponse.status
+        ),
+      });
+    }
+
+    return retryResponse;
   }
 
   /**
-   * Initialize the discovery document
+   * Get the discovery document from memory, the persistent cache or the server
    */
   private async getDiscovery(): Promise<AuthSession.DiscoveryDocument> {
-    if (!this.discovery) {
+    if (this.discovery && Date.now() < this.discoveryExpiresAt) {
+      return this.discovery;
+    }
+
+    if (!this.discoveryPromise) {
+      this.discoveryPromise = this.loadDiscovery().finally(() => {
+        this.discoveryPromise = null;
+      });
+    }
+
+    return this.discoveryPromise;
+  }
+
+  /**
+   * Load the discovery document, revalidating an expired cache entry with its ETag.
+   * Default endpoint paths are only used when allowDiscoveryFallback is set.
+   */
+  private async loadDiscovery(): Promise<AuthSession.DiscoveryDocument> {
+    const ttl =
+      (this.config.discoveryCacheTtl ?? DEFAULT_DISCOVERY_CACHE_TTL) * 1000;
+    const cached = await this.getCachedDiscovery();
+
+    if (cached && Date.now() < cached.fetchedAt + ttl) {
+      this.logger.debug("Using cached discovery document");
+      return this.useDiscovery(cached.document, cached.fetchedAt + ttl);
+    }
+
+    try {
+      const response = await this.createApiClient().get(
+        buildAuthUrl(this.authBaseUrl, ".well-known/openid-configuration"),
+        {
+          headers: cached?.etag ? { "If-None-Match": cached.etag } : undefined,
+          validateStatus: (status) =>
+            (status >= 200 && status < 300) || (status === 304 && !!cached),
+        }
+      );
+
+      const notModified = response.status === 304 && cached;
+      const document: AuthSession.ProviderMetadata = notModified
+        ? cached.document
+        : response.data;
+      this.validateIssuer(document);
+
+      const entry: CachedDiscovery = {
+        authBaseUrl: this.authBaseUrl,
+        document,
+        etag: response.headers.etag || (notModified ? cached.etag : undefined),
+        fetchedAt: Date.now(),
+      };
       try {
-        // Try to fetch discovery document
-        this.discovery = await AuthSession.fetchDiscoveryAsync(
-          this.authBaseUrl
+        await this.storage.setItem(
+          STORAGE_KEYS.DISCOVERY,
+          JSON.stringify(entry)
         );
       } catch (error) {
-        // Fallback to manual configuration if discovery fails
-        this.discovery = {
-          authorizationEndpoint: buildAuthUrl(this.authBaseUrl, "authorize"),
-          tokenEndpoint: buildAuthUrl(this.authBaseUrl, "token"),
-          revocationEndpoint: buildAuthUrl(this.authBaseUrl, "revoke"),
-          userInfoEndpoint: buildAuthUrl(this.authBaseUrl, "userinfo"),
-          endSessionEndpoint: buildAuthUrl(this.authBaseUrl, "logout"),
-        };
+        this.logger.warn("Failed to cache discovery document:", error);
+      }
+
+      this.logger.debug("Discovery document loaded", {
+        notModified: !!notModified,
+      });
+      return this.useDiscovery(document, entry.fetchedAt + ttl);
+    } catch (error) {
+      const failure = this.handleError(error, AuthErrorCode.DISCOVERY_FAILED);
+
+      // A foreign issuer is a misconfiguration, not an outage
+      if (failure.code === AuthErrorCode.CONFIGURATION_ERROR) {
+        throw failure;
       }
+
+      // Report offline and server failures alike as DISCOVERY_FAILED
+      const discoveryError = new BlitzWareError(
+        failure.message,
+        AuthErrorCode.DISCOVERY_FAILED,
+        failure.statusCode,
+        {
+          oauthError: failure.oauthError,
+          errorDescription: failure.errorDescription,
+          cause: failure.cause ?? error,
+          isRetryable: failure.isRetryable,
+        }
+      );
+
+      // A stale but validated document beats guessed endpoints; retry shortly
+      if (cached) {
+        this.logger.warn(
+          "Discovery failed, using the cached document:",
+          discoveryError
+        );
+        return this.useDiscovery(
+          cached.document,
+          Date.now() + DISCOVERY_RETRY_DELAY
+        );
+      }
+
+      if (!this.config.allowDiscoveryFallback) {
+        throw discoveryError;
+      }
+
+      this.logger.warn(
+        "Discovery failed, using default endpoints:",
+        discoveryError
+      );
+      this.events.emit("discoveryFallback", { error: discoveryError });
+
+      this.discovery = {
+        authorizationEndpoint: buildAuthUrl(this.authBaseUrl, "authorize"),
+        tokenEndpoint: buildAuthUrl(this.authBaseUrl, "token"),
+        revocationEndpoint: buildAuthUrl(this.authBaseUrl, "revoke"),
+        userInfoEndpoint: buildAuthUrl(this.authBaseUrl, "userinfo"),
+        endSessionEndpoint: buildAuthUrl(this.authBaseUrl, "logout"),
+      };
+      this.discoveryExpiresAt = Date.now() + DISCOVERY_RETRY_DELAY;
+      return this.discovery;
     }
+  }
+
+  /**
+   * Read the persisted discovery document for the configured authBaseUrl
+   */
+  private async getCachedDiscovery(): Promise<CachedDiscovery | null> {
+    try {
+      const json = await this.storage.getItem(STORAGE_KEYS.DISCOVERY);
+      const cached: CachedDiscovery | null = json ? JSON.parse(json) : null;
+      return cached?.authBaseUrl === this.authBaseUrl ? cached : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private useDiscovery(
+    document: AuthSession.ProviderMetadata,
+    expiresAt: number
+  ): AuthSession.DiscoveryDocument {
+    this.discovery = toDiscovery(document);
+    this.discoveryExpiresAt = expiresAt;
     return this.discovery;
   }
 
+  /**
+   * The discovery document must describe the server at authBaseUrl
+   * @throws BlitzWareError with CONFIGURATION_ERROR if the issuer differs
+   */
+  private validateIssuer(document: AuthSession.ProviderMetadata): void {
+    const issuer = typeof document?.issuer === "string" ? document.issuer : "";
+
+    if (issuer.replace(/\/+$/, "") !== this.authBaseUrl.replace(/\/+$/, "")) {
+      throw new BlitzWareError(
+        `Discovery issuer "${issuer}" does not match authBaseUrl "${this.authBaseUrl}"`,
+        AuthErrorCode.CONFIGURATION_ERROR
+      );
+    }
+  }
+
+  /**
+   * Get the authorization server metadata from the discovery document,
+   * e.g. scopes_supported or grant_types_supported
+   * @returns The metadata, or null when the default endpoints are in use
+   */
+  async getServerMetadata(): Promise<ServerMetadata | null> {
+    try {
+      const discovery = await this.getDiscovery();
+      return (discovery.discoveryDocument as ServerMetadata) ?? null;
+    } catch (error) {
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.DISCOVERY_FAILED)
+      );
+    }
+  }
+
+  /**
+   * Get the JWKS URI from the discovery document
+   */
+  private async getJwksUri(): Promise<string> {
+    const discovery = await this.getDiscovery();
+    return (
+      discovery.discoveryDocument?.jwks_uri ||
+      this.getDefaultEndpoint("jwks_uri", ".well-known/jwks.json")
+    );
+  }
+
+  /**
+   * Default path of an endpoint the discovery document does not advertise.
+   * Guessing is opt-in through allowDiscoveryFallback.
+   */
+  private getDefaultEndpoint(name: string, path: string): string {
+    if (!this.config.allowDiscoveryFallback) {
+      throw new BlitzWareError(
+        `The authorization server does not advertise a ${name}`,
+        AuthErrorCode.CONFIGURATION_ERROR
+      );
+    }
+    return buildAuthUrl(this.authBaseUrl, path);
+  }
+
+  /**
+   * Verify the ID token signature and claims before it is stored
+   */
+  private async validateIdToken(
+    idToken: string,
+    nonce?: string,
+    maxAge?: number,
+    code?: string
+  ): Promise<void> {
+    const discovery = await this.getDiscovery();
+    this.logger.debug("Validating ID token", { hybrid: code !== undefined });
+    await this.idTokenValidator.validate(idToken, {
+      issuer:
+        discovery.discoveryDocument?.issuer ||
+        this.authBaseUrl.replace(/\/+$/, ""),
+      clientId: this.config.clientId,
+      leeway: this.config.idTokenLeeway ?? DEFAULT_ID_TOKEN_LEEWAY,
+      clockOffset: await this.getClockOffset(),
+      nonce,
+      maxAge,
+      code,
+    });
+  }
+
   /**
    * Authenticate user with authorization code flow
    */
-  async login(): Promise<BlitzWareUser> {
+  async login(options: LoginOptions = {}): Promise<BlitzWareUser> {
+    return this.authorize(options, this.config.scopes || DEFAULT_SCOPES);
+  }
+
+  /**
+   * Ask the user to consent to additional scopes after login.
+   * Re-runs authorization with the union of the granted and the new scopes.
+   * @param scopes - The scopes to add.
+   * @param options - Authorization request options for this call.
+   * @returns The scopes the user has now granted.
+   */
+  async requestScopes(
+    scopes: string[],
+    options: LoginOptions = {}
+  ): Promise<string[]> {
+    const grantedScopes = await this.getGrantedScopes();
+    const requestedScopes = Array.from(
+      new Set([
+        ...(this.config.scopes || DEFAULT_SCOPES),
+        ...grantedScopes,
+        ...scopes,
+      ])
+    );
+
+    // The server may only report the new scopes; keep the earlier grants
+    await this.authorize(options, requestedScopes, grantedScopes);
+    return this.getGrantedScopes();
+  }
+
+  /**
+   * Get the scopes the user has consented to, as reported by the token endpoint
+   */
+  async getGrantedScopes(): Promise<string[]> {
+    try {
+      const scope = await this.storage.getItem(STORAGE_KEYS.GRANTED_SCOPES);
+      return scope ? scope.split(/\s+/).filter(Boolean) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Run the authorization code flow for the given scopes.
+   * `grantedScopes` were granted earlier and are stored along with the returned scope.
+   */
+  private async authorize(
+    options: LoginOptions,
+    scopes: string[],
+    grantedScopes: string[] = []
+  ): Promise<BlitzWareUser> {
+    const responseType = this.config.responseType || "code";
+    const span = this.spans.start("login", {
+      "auth.response_type": responseType,
+      "auth.par": !!this.config.usePAR,
+    });
+
     try {
       const discovery = await this.getDiscovery();
+      const loginOptions = this.mergeLoginOptions(options);
+      const nonce = Crypto.randomUUID();
+      this.logger.debug("Starting authorization", {
+        responseType,
+        scopes,
+        usePAR: !!this.config.usePAR,
+      });
 
       // Create authorization request
       const request = new AuthSession.AuthRequest({
         clientId: this.config.clientId,
-        scopes: this.config.scopes || DEFAULT_SCOPES,
+        scopes,
         redirectUri: this.config.redirectUri,
-        responseType: AuthSession.ResponseType.Code,
-        usePKCE: true,
+        responseType,
+        // The implicit flow has no code exchange to protect
+        usePKCE: responseType !== "token",
+        prompt: loginOptions.prompt as AuthSession.Prompt | undefined,
+        state: loginOptions.state,
+        extraParams: {
+          ...this.buildAuthorizationParams(loginOptions),
+          nonce,
+        },
       });
 
-      // Prompt for authorization
-      const result = await request.promptAsync(discovery);
+      // Prompt for authorization; with PAR the browser only sees the request_uri
+      const result = await span.measure("prompt", async () =>
+        this.config.usePAR
+          ? request.promptAsync(discovery, {
+              url: await this.pushAuthorizationRequest(request, discovery),
+            })
+          : request.promptAsync(discovery)
+      );
+
+      this.logger.debug("Authorization response received", {
+        type: result.type,
+      });
+
+      // expo-auth-session compares the state itself; a mismatch is an error
+      // result whose AuthError code (params.error) is "state_mismatch"
+      if (
+        result.type === "error" &&
+        result.error?.params.error === "state_mismatch"
+      ) {
+        throw new BlitzWareError(
+          "Returned state does not match the state that was sent",
+          AuthErrorCode.STATE_MISMATCH
+        );
+      }
+
+      if (result.type === "cancel" || result.type === "dismiss") {
+        throw new BlitzWareError(
+          "Login was cancelled by the user",
+          AuthErrorCode.LOGIN_CANCELLED
+        );
+      }
+
+      if (result.type === "error") {
+        throw fromOAuthResponse(
+          result.params,
+          undefined,
+          AuthErrorCode.AUTHENTICATION_FAILED,
+          "Authorization failed",
+          result.error
+        );
+      }
 
       if (result.type !== "success") {
         throw new Error("Authorization was cancelled or failed");
       }
 
+      if (responseType === "token") {
+        const user = await this.completeImplicitLogin(
+          result.params,
+          scopes,
+          grantedScopes,
+          span
+        );
+        span.end();
+        return user;
+      }
+
+      if (responseType === "code id_token") {
+        // The front-channel ID token must be bound to the code before it is redeemed
+        if (!result.params.id_token) {
+          throw new BlitzWareError(
+            "Authorization response is missing the ID token",
+            AuthErrorCode.ID_TOKEN_INVALID
+          );
+        }
+        await this.validateIdToken(
+          result.params.id_token,
+          nonce,
+          loginOptions.maxAge,
+          result.params.code
+        );
+      }
+
       // Exchange code for tokens
-      const tokenResult = await AuthSession.exchangeCodeAsync(
+      const tokenResult = await span.measure("exchange", () =>
+        this.requestToken(
+          {
+            grant_type: "authorization_code",
+            code: result.params.code,
+            redirect_uri: this.config.redirectUri,
+            ...(request.codeVerifier
+              ? { code_verifier: request.codeVerifier }
+              : {}),
+          },
+          AuthErrorCode.AUTHENTICATION_FAILED
+        )
+      );
+
+      if (tokenResult.id_token) {
+        await this.validateIdToken(
+          tokenResult.id_token,
+          nonce,
+          loginOptions.maxAge
+        );
+      }
+
+      const user = await this.completeLogin(
         {
-          clientId: this.config.clientId,
-          code: result.params.code,
-          redirectUri: this.config.redirectUri,
-          extraParams: request.codeVerifier
-            ? { code_verifier: request.codeVerifier }
-            : {},
+          accessToken: tokenResult.access_token,
+          refreshToken: tokenResult.refresh_token,
+          idToken: tokenResult.id_token,
+          expiresAt: await this.getExpiresAt(tokenResult.expires_in),
+          // Without a scope in the response the requested scopes were granted
+          scope: mergeScopes(
+            grantedScopes,
+            tokenResult.scope || scopes.join(" ")
+          ),
         },
-        discovery
+        span
+      );
+      span.end();
+      return user;
+    } catch (error) {
+      const loginError = this.handleError(
+        error,
+        AuthErrorCode.AUTHENTICATION_FAILED
       );
+      span.end(loginError);
+      throw this.emitError(loginError);
+    }
+  }
 
-      // Store tokens securely
-      await this.storeTokens({
-        accessToken: tokenResult.accessToken,
-        refreshToken: tokenResult.refreshToken || undefined,
-        idToken: tokenResult.idToken || undefined,
-        expiresAt: tokenResult.expiresIn
-          ? Date.now() + tokenResult.expiresIn * 1000
-          : undefined,
+  /**
+   * Push the authorization request parameters to the PAR endpoint (RFC 9126)
+   * @returns The authorization URL carrying only client_id and request_uri
+   * @throws BlitzWareError if the server has no PAR endpoint or rejects the request
+   */
+  private async pushAuthorizationRequest(
+    request: AuthSession.AuthRequest,
+    discovery: AuthSession.DiscoveryDocument
+  ): Promise<string> {
+    const parEndpoint =
+      discovery.discoveryDocument?.pushed_authorization_request_endpoint;
+    if (typeof parEndpoint !== "string" || !parEndpoint) {
+      throw new BlitzWareError(
+        "usePAR is enabled but the authorization server does not advertise a pushed_authorization_request_endpoint",
+        AuthErrorCode.CONFIGURATION_ERROR
+      );
+    }
+
+    // Reuse the parameters expo-auth-session would have put in the URL (PKCE, scope, state, ...).
+    // It appends them with "?" even when the endpoint already has a query string.
+    const endpoint = discovery.authorizationEndpoint || "";
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const authUrl = await request.makeAuthUrlAsync(discovery);
+    const params: Record<string, string> = {};
+    new URL(
+      authUrl.startsWith(`${endpoint}?`)
+        ? `${endpoint}${separator}${authUrl.slice(endpoint.length + 1)}`
+        : authUrl
+    ).searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+
+    const response = await this.postForm(parEndpoint, params);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw fromOAuthResponse(
+        response.data,
+        response.status,
+        AuthErrorCode.PUSHED_AUTHORIZATION_FAILED,
+        "Pushed authorization request failed"
+      );
+    }
+
+    // RFC 9126 section 2.2: both are required in a successful response
+    const { request_uri: requestUri, expires_in: expiresIn } =
+      response.data ?? {};
+    if (
+      typeof requestUri !== "string" ||
+      !requestUri ||
+      typeof expiresIn !== "number" ||
+      expiresIn <= 0
+    ) {
+      throw new BlitzWareError(
+        "Pushed authorization response is missing request_uri or expires_in",
+        AuthErrorCode.PUSHED_AUTHORIZATION_FAILED,
+        response.status
+      );
+    }
+
+    const query = new URLSearchParams({
+      client_id: this.config.clientId,
+      request_uri: requestUri,
+    });
+    return `${endpoint}${separator}${query.toString()}`;
+  }
+
+  /**
+   * Finish an implicit flow login with the tokens from the redirect fragment.
+   * The implicit flow issues no refresh token; the session ends when the token expires.
+   */
+  private async completeImplicitLogin(
+    params: Record<string, string>,
+    scopes: string[],
+    grantedScopes: string[],
+    span?: ActiveSpan
+  ): Promise<BlitzWareUser> {
+    if (!params.access_token) {
+      throw new BlitzWareError(
+        "Authorization response is missing the access token",
+        AuthErrorCode.AUTHENTICATION_FAILED
+      );
+    }
+
+    const expiresIn = parseInt(params.expires_in, 10);
+    return this.completeLogin(
+      {
+        accessToken: params.access_token,
+        expiresAt: await this.getExpiresAt(expiresIn),
+        scope: mergeScopes(grantedScopes, params.scope || scopes.join(" ")),
+      },
+      span
+    );
+  }
+
+  /**
+   * Store the tokens of a completed login, fetch the user and emit "login"
+   */
+  private async completeLogin(
+    tokens: TokenSet,
+    span?: ActiveSpan
+  ): Promise<BlitzWareUser> {
+    // Nothing of the previous session may survive, e.g. a refresh token
+    // that an implicit login would not replace
+    await this.clearStorage();
+
+    // Store tokens securely
+    await this.storeTokens(tokens);
+
+    // Get user information
+    const user = span
+      ? await span.measure("userinfo", () => this.fetchUserInfo())
+      : await this.fetchUserInfo();
+    await this.storeUser(user);
+
+    this.logger.debug("Login completed");
+    this.events.emit("login", { user });
+    return user;
+  }
+
+  /**
+   * Start a device authorization grant (RFC 8628) for devices that cannot
+   * open a browser, such as TVs. Show the returned user code and verification
+   * URI, then call waitForUser() to poll until the user approves on another device.
+   */
+  async loginWithDeviceCode(): Promise<DeviceAuthorization> {
+    try {
+      const discovery = await this.getDiscovery();
+      const deviceEndpoint =
+        discovery.discoveryDocument?.device_authorization_endpoint ||
+        this.getDefaultEndpoint(
+          "device_authorization_endpoint",
+          "device_authorization"
+        );
+
+      const response = await this.postForm(deviceEndpoint, {
+        client_id: this.config.clientId,
+        scope: (this.config.scopes || DEFAULT_SCOPES).join(" "),
       });
 
-      // Get user information
-      const user = await this.fetchUserInfo();
-      await this.storeUser(user);
+      if (response.status < 200 || response.status >= 300) {
+        throw fromOAuthResponse(
+          response.data,
+          response.status,
+          AuthErrorCode.DEVICE_AUTHORIZATION_FAILED,
+          "Device authorization request failed"
+        );
+      }
 
-      return user;
+      const data = response.data;
+      const interval = data.interval ?? DEFAULT_DEVICE_POLL_INTERVAL;
+      const expiresAt = Date.now() + data.expires_in * 1000;
+      let cancelled = false;
+
+      return {
+        userCode: data.user_code,
+        verificationUri: data.verification_uri,
+        verificationUriComplete: data.verification_uri_complete,
+        expiresIn: data.expires_in,
+        interval,
+        waitForUser: () =>
+          this.pollDeviceToken(
+            discovery,
+            data.device_code,
+            interval,
+            expiresAt,
+            () => cancelled
+          ),
+        cancel: () => {
+          cancelled = true;
+        },
+      };
     } catch (error) {
-      throw this.handleError(error, AuthErrorCode.AUTHENTICATION_FAILED);
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.DEVICE_AUTHORIZATION_FAILED)
+      );
     }
   }
 
   /**
-   * Log out the user and clear stored tokens
+   * Poll the token endpoint until the device code is approved, denied or expired
    */
-  async logout(): Promise<void> {
+  private async pollDeviceToken(
+    discovery: AuthSession.DiscoveryDocument,
+    deviceCode: string,
+    interval: number,
+    expiresAt: number,
+    isCancelled: () => boolean
+  ): Promise<BlitzWareUser> {
+    const throwIfCancelled = () => {
+      if (isCancelled()) {
+        throw new BlitzWareError(
+          "Device login was cancelled",
+          AuthErrorCode.LOGIN_CANCELLED
+        );
+      }
+    };
+
     try {
-      const accessToken = await this.getStoredToken("access_token");
+      const tokenEndpoint =
+        discovery.tokenEndpoint || buildAuthUrl(this.authBaseUrl, "token");
+
+      while (true) {
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+        throwIfCancelled();
+
+        if (Date.now() >= expiresAt) {
+          throw new BlitzWareError(
+            "Device code expired before it was approved",
+            AuthErrorCode.DEVICE_CODE_EXPIRED
+          );
+        }
 
-      if (accessToken) {
+        let response: AxiosResponse;
         try {
-          const response = await this.createApiClient().post("logout", {
+          response = await this.postForm(tokenEndpoint, {
+            grant_type: DEVICE_CODE_GRANT_TYPE,
+            device_code: deviceCode,
             client_id: this.config.clientId,
           });
+        } catch (error) {
+          const pollError = this.handleError(
+            error,
+            AuthErrorCode.AUTHENTICATION_FAILED
+          );
+          if (!pollError.isRetryable) {
+            throw pollError;
+          }
+          // A dropped request does not end the login; poll until the code expires
+          this.logger.warn(
+            "Device token request failed, polling again:",
+            pollError
+          );
+          continue;
+        }
+
+        // cancel() may have been called while the request was in flight
+        throwIfCancelled();
+
+        if (response.status >= 200 && response.status < 300) {
+          const data = response.data;
+          await this.updateClockOffset(response);
 
-          if (response.status < 200 || response.status >= 300) {
-            console.warn("Logout request failed:", response.status);
+          if (data.id_token) {
+            await this.validateIdToken(data.id_token);
+          }
+
+          // Never sign in a login that was abandoned meanwhile
+          throwIfCancelled();
+          return await this.completeLogin({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            idToken: data.id_token,
+            expiresAt: await this.getExpiresAt(data.expires_in),
+            scope:
+              data.scope || (this.config.scopes || DEFAULT_SCOPES).join(" "),
+          });
+        }
+
+        this.logger.debug("Device authorization pending", {
+          error: response.data?.error,
+        });
+
+        switch (response.data?.error) {
+          case "authorization_pending":
+            break;
+          case "slow_down":
+            interval += 5;
+            break;
+          case "expired_token":
+            throw new BlitzWareError(
+              "Device code expired before it was approved",
+              AuthErrorCode.DEVICE_CODE_EXPIRED,
+              response.status
+            );
+          default: {
+            const pollError = fromOAuthResponse(
+              response.data,
+              response.status,
+              AuthErrorCode.AUTHENTICATION_FAILED,
+              "Device login failed"
+            );
+            if (!pollError.isRetryable) {
+              throw pollError;
+            }
+            this.logger.warn(
+              "Device token request failed, polling again:",
+              pollError
+            );
           }
-        } catch (logoutError) {
-          // Continue with local logout even if logout request fails
-          console.warn("Logout request failed:", logoutError);
+        }
+      }
+    } catch (error) {
+      const loginError = this.handleError(
+        error,
+        AuthErrorCode.AUTHENTICATION_FAILED
+      );
+      // Backing out of the login is not an auth failure to report
+      if (loginError.code === AuthErrorCode.LOGIN_CANCELLED) {
+        throw loginError;
+      }
+      throw this.emitError(loginError);
+    }
+  }
+
+  /**
+   * Exchange a token for another token (RFC 8693), e.g. a BlitzWare access token
+   * for a downstream service token, or a native Apple/Google identity token for
+   * a BlitzWare session. With `persist` the result is stored like a login.
+   */
+  async exchangeToken(
+    options: TokenExchangeOptions
+  ): Promise<TokenExchangeResult> {
+    try {
+      this.logger.debug("Exchanging token", {
+        subjectTokenType: options.subjectTokenType,
+        requestedTokenType: options.requestedTokenType,
+        audience: options.audience,
+      });
+      const params: Record<string, string> = {
+        grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+        subject_token: options.subjectToken,
+        subject_token_type: options.subjectTokenType,
+      };
+      if (options.requestedTokenType) {
+        params.requested_token_type = options.requestedTokenType;
+      }
+      if (options.audience) {
+        params.audience = options.audience;
+      }
+      if (options.scopes?.length) {
+        params.scope = options.scopes.join(" ");
+      }
+
+      const data = await this.requestToken<TokenExchangeResponse>(
+        params,
+        AuthErrorCode.TOKEN_EXCHANGE_FAILED
+      );
+      const result: TokenExchangeResult = {
+        accessToken: data.access_token,
+        issuedTokenType: data.issued_token_type,
+        tokenType: data.token_type,
+        expiresIn: data.expires_in,
+        refreshToken: data.refresh_token,
+        idToken: data.id_token,
+        scope: data.scope,
+      };
+
+      if (options.persist) {
+        if (result.idToken) {
+          await this.validateIdToken(result.idToken);
+        }
+
+        result.user = await this.completeLogin({
+          accessToken: result.accessToken,
+          refreshToken: result.refreshToken,
+          idToken: result.idToken,
+          expiresAt: await this.getExpiresAt(result.expiresIn),
+          scope: result.scope,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.TOKEN_EXCHANGE_FAILED)
+      );
+    }
+  }
+
+  /**
+   * Call the token endpoint with the client ID and the given grant parameters
+   * @throws BlitzWareError with the given code if the server rejects the request
+   */
+  private async requestToken<
+    T extends TokenEndpointResponse = TokenEndpointResponse,
+  >(params: Record<string, string>, errorCode: AuthErrorCode): Promise<T> {
+    const discovery = await this.getDiscovery();
+    const tokenEndpoint =
+      discovery.tokenEndpoint || buildAuthUrl(this.authBaseUrl, "token");
+
+    this.logger.debug("Requesting tokens", {
+      grantType: params.grant_type,
+      tokenEndpoint,
+    });
+    const response = await this.postForm(tokenEndpoint, {
+      client_id: this.config.clientId,
+      ...params,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw fromOAuthResponse(
+        response.data,
+        response.status,
+        errorCode,
+        "Token request failed"
+      );
+    }
+
+    await this.updateClockOffset(response);
+
+    this.logger.debug("Token response received", {
+      tokenType: response.data?.token_type,
+      expiresIn: response.data?.expires_in,
+      scope: response.data?.scope,
+    });
+    return response.data;
+  }
+
+  /**
+   * POST a form-encoded request and return the response without throwing on HTTP errors
+   */
+  private postForm(url: string, params: Record<string, string>) {
+    return this.postToAuthServer(
+      url,
+      new URLSearchParams(params).toString(),
+      "application/x-www-form-urlencoded"
+    );
+  }
+
+  /**
+   * POST to the authorization server without throwing on HTTP errors.
+   * With DPoP enabled a proof is attached, and the request is retried once
+   * when the server asks for a DPoP-Nonce.
+   */
+  private async postToAuthServer(
+    url: string,
+    data: unknown,
+    contentType: string
+  ): Promise<AxiosResponse> {
+    const send = async () => {
+      const headers: Record<string, string> = { "Content-Type": contentType };
+      if (this.dpop) {
+        headers.DPoP = await this.dpop.createProof("POST", url);
+      }
+
+      const response = await this.createApiClient().post(url, data, {
+        headers,
+        validateStatus: () => true,
+      });
+      this.dpop?.updateNonce(url, response.headers["dpop-nonce"]);
+      return response;
+    };
+
+    const response = await send();
+    if (
+      this.dpop &&
+      response.data?.error === "use_dpop_nonce" &&
+      response.headers["dpop-nonce"]
+    ) {
+      this.logger.debug("Retrying with the server's DPoP-Nonce", { url });
+      return send();
+    }
+    return response;
+  }
+
+  /**
+   * Merge per-call login options over the configured defaults
+   */
+  private mergeLoginOptions(options: LoginOptions): LoginOptions {
+    // A fixed state would defeat its CSRF protection; only a per-call state is used
+    const { state, ...defaults }: LoginOptions =
+      this.config.defaultLoginOptions || {};
+    return {
+      ...defaults,
+      ...options,
+      extraParams: { ...defaults.extraParams, ...options.extraParams },
+    };
+  }
+
+  /**
+   * Map login options to authorization request parameters
+   */
+  private buildAuthorizationParams(
+    options: LoginOptions
+  ): Record<string, string> {
+    const params: Record<string, string> = { ...options.extraParams };
+
+    if (options.loginHint) {
+      params.login_hint = options.loginHint;
+    }
+    if (options.uiLocales) {
+      params.ui_locales = options.uiLocales;
+    }
+    if (options.maxAge !== undefined) {
+      params.max_age = options.maxAge.toString();
+    }
+    if (options.acrValues) {
+      params.acr_values = options.acrValues;
+    }
+
+    return params;
+  }
+
+  /**
+   * Log out the user: revoke the refresh and access tokens (RFC 7009)
+   * and clear stored tokens. Revocation failures are reported in the result.
+   * With `federated` the hosted login session is ended in the browser too.
+   */
+  async logout(options: LogoutOptions = {}): Promise<LogoutResult> {
+    const span = this.spans.start("logout", {
+      "auth.federated": !!options.federated,
+    });
+
+    try {
+      const accessToken = await this.getStoredToken("access_token");
+      const refreshToken = await this.getStoredToken("refresh_token");
+      const idToken = await this.getStoredToken("id_token");
+      const user = await this.getUserFromStorage();
+      this.logger.debug("Logging out", { federated: !!options.federated });
+      const result: LogoutResult = {
+        refreshTokenRevoked: false,
+        accessTokenRevoked: false,
+        endSessionCompleted: false,
+        errors: [],
+      };
+
+      // Revoke the refresh token first so no new access tokens can be minted
+      if (refreshToken) {
+        try {
+          await this.revokeToken(
+            refreshToken,
+            AuthSession.TokenTypeHint.RefreshToken
+          );
+          result.refreshTokenRevoked = true;
+        } catch (error) {
+          result.errors.push(error as BlitzWareError);
+        }
+      }
+
+      if (accessToken) {
+        try {
+          await this.revokeToken(
+            accessToken,
+            AuthSession.TokenTypeHint.AccessToken
+          );
+          result.accessTokenRevoked = true;
+        } catch (error) {
+          result.errors.push(error as BlitzWareError);
+        }
+      }
+
+      if (options.federated) {
+        try {
+          await this.endBrowserSession(
+            idToken,
+            options.postLogoutRedirectUri || this.config.redirectUri
+          );
+          result.endSessionCompleted = true;
+        } catch (error) {
+          result.errors.push(error as BlitzWareError);
         }
       }
 
       // Clear all stored data
       await this.clearStorage();
+
+      this.logger.debug("Logout completed", result);
+      span.setAttribute(
+        "auth.refresh_token_revoked",
+        result.refreshTokenRevoked
+      );
+      span.setAttribute("auth.access_token_revoked", result.accessTokenRevoked);
+      span.setAttribute(
+        "auth.end_session_completed",
+        result.endSessionCompleted
+      );
+      span.setAttribute("auth.error_count", result.errors.length);
+      span.end();
+      this.events.emit("logout", { user });
+      return result;
+    } catch (error) {
+      const logoutError = this.handleError(error, AuthErrorCode.LOGOUT_FAILED);
+      span.end(logoutError);
+      throw this.emitError(logoutError);
+    }
+  }
+
+  /**
+   * Open the end-session endpoint (RP-initiated logout) and wait for the redirect
+   * @throws BlitzWareError with LOGOUT_FAILED if the session could not be ended
+   */
+  private async endBrowserSession(
+    idToken: string | null,
+    postLogoutRedirectUri: string
+  ): Promise<void> {
+    const discovery = await this.getDiscovery();
+
+    if (!discovery.endSessionEndpoint) {
+      throw new BlitzWareError(
+        "Authorization server does not provide an end session endpoint",
+        AuthErrorCode.LOGOUT_FAILED
+      );
+    }
+
+    const url = new URL(discovery.endSessionEndpoint);
+    url.searchParams.set("client_id", this.config.clientId);
+    url.searchParams.set("post_logout_redirect_uri", postLogoutRedirectUri);
+    if (idToken) {
+      url.searchParams.set("id_token_hint", idToken);
+    }
+
+    let browserResult: WebBrowser.WebBrowserAuthSessionResult;
+    try {
+      browserResult = await WebBrowser.openAuthSessionAsync(
+        url.toString(),
+        postLogoutRedirectUri
+      );
     } catch (error) {
       throw this.handleError(error, AuthErrorCode.LOGOUT_FAILED);
     }
+
+    if (browserResult.type !== "success") {
+      throw new BlitzWareError(
+        "Browser logout was cancelled or failed",
+        AuthErrorCode.LOGOUT_FAILED
+      );
+    }
+  }
+
+  /**
+   * Revoke a token at the revocation endpoint
+   * @throws BlitzWareError with REVOCATION_FAILED if the request fails
+   */
+  private async revokeToken(
+    token: string,
+    tokenTypeHint: AuthSession.TokenTypeHint
+  ): Promise<void> {
+    try {
+      const discovery = await this.getDiscovery();
+      await withRetry(
+        this.retryPolicy,
+        () =>
+          AuthSession.revokeAsync(
+            {
+              token,
+              tokenTypeHint,
+              clientId: this.config.clientId,
+            },
+            discovery
+          ),
+        this.isRetryableError
+      );
+    } catch (error) {
+      throw this.handleError(error, AuthErrorCode.REVOCATION_FAILED);
+    }
   }
 
   /**
    * Get current access token, refreshing if necessary
    * This method ensures you always get a valid token if possible
+   * @param options - Audience and/or scopes for a resource-specific token (RFC 8707).
    */
-  async getAccessToken(): Promise<string | null> {
+  async getAccessToken(
+    options: AccessTokenOptions = {}
+  ): Promise<string | null> {
+    if (options.audience || options.scopes?.length) {
+      return this.getResourceAccessToken(options);
+    }
+
     try {
       // First check if we have a token locally that appears valid
       const isLocallyValid = await this.isTokenValidLocally();
@@ -205,7 +1690,17 @@ export class BlitzWareAuthClient {
       }
 
       // Now validate with server to be sure
-      const isServerValid = await this.isAuthenticated();
+      let isServerValid: boolean;
+      try {
+        isServerValid = (await this.validateAccessToken()).active;
+      } catch (validationError) {
+        // The server could not be reached; the token is still valid locally
+        this.logger.debug(
+          "Token validation unavailable, using the locally valid token:",
+          validationError
+        );
+        return await this.getStoredToken("access_token");
+      }
 
       if (!isServerValid) {
         // Server says token is invalid, try to refresh
@@ -220,8 +1715,145 @@ export class BlitzWareAuthClient {
       // Return the token
       return await this.getStoredToken("access_token");
     } catch (error) {
-      throw this.handleError(error, AuthErrorCode.TOKEN_EXPIRED);
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.TOKEN_EXPIRED)
+      );
+    }
+  }
+
+  /**
+   * Get an access token for a specific audience/scopes from the per-resource cache,
+   * requesting a new one with the refresh token when missing or expired
+   */
+  private async getResourceAccessToken(
+    options: AccessTokenOptions
+  ): Promise<string | null> {
+    try {
+      const cacheKey = await this.getResourceTokenKey(options);
+      const cachedJson = await this.secureStorage.getItem(
+        SECURE_STORE_KEYS.RESOURCE_TOKEN_PREFIX + cacheKey
+      );
+      const cached: ResourceToken | null = cachedJson
+        ? JSON.parse(cachedJson)
+        : null;
+
+      if (
+        cached &&
+        (!cached.expiresAt || !(await this.isExpired(cached.expiresAt)))
+      ) {
+        return cached.accessToken;
+      }
+
+      let pending = this.resourceTokenPromises.get(cacheKey);
+      if (!pending) {
+        pending = this.fetchResourceAccessToken(cacheKey, options).finally(
+          () => {
+            this.resourceTokenPromises.delete(cacheKey);
+          }
+        );
+        this.resourceTokenPromises.set(cacheKey, pending);
+      }
+
+      return await pending;
+    } catch (error) {
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.REFRESH_FAILED)
+      );
+    }
+  }
+
+  /**
+   * Request a resource-specific access token with the refresh token
+   */
+  private async fetchResourceAccessToken(
+    cacheKey: string,
+    options: AccessTokenOptions
+  ): Promise<string | null> {
+    return this.serializeRefreshTokenGrant(async () => {
+      const refreshToken = await this.getStoredToken("refresh_token");
+      if (!refreshToken) {
+        return null;
+      }
+
+      const params: Record<string, string> = {
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+      };
+      if (options.scopes?.length) {
+        params.scope = options.scopes.join(" ");
+      }
+      if (options.audience) {
+        params.resource = options.audience;
+      }
+
+      const tokenResult = await this.requestToken(
+        params,
+        AuthErrorCode.REFRESH_FAILED
+      );
+
+      if (
+        tokenResult.refresh_token &&
+        tokenResult.refresh_token !== refreshToken
+      ) {
+        await this.secureStorage.setItem(
+          SECURE_STORE_KEYS.REFRESH_TOKEN,
+          tokenResult.refresh_token
+        );
+      }
+
+      const resourceToken: ResourceToken = {
+        accessToken: tokenResult.access_token,
+        expiresAt: await this.getExpiresAt(tokenResult.expires_in),
+      };
+      await this.secureStorage.setItem(
+        SECURE_STORE_KEYS.RESOURCE_TOKEN_PREFIX + cacheKey,
+        JSON.stringify(resourceToken)
+      );
+
+      const keysJson = await this.storage.getItem(
+        STORAGE_KEYS.RESOURCE_TOKEN_KEYS
+      );
+      const keys: string[] = keysJson ? JSON.parse(keysJson) : [];
+      if (!keys.includes(cacheKey)) {
+        keys.push(cacheKey);
+        await this.storage.setItem(
+          STORAGE_KEYS.RESOURCE_TOKEN_KEYS,
+          JSON.stringify(keys)
+        );
+      }
+
+      return resourceToken.accessToken;
+    });
+  }
+
+  /**
+   * Storage-safe cache key for an audience + scope combination
+   */
+  private async getResourceTokenKey(
+    options: AccessTokenOptions
+  ): Promise<string> {
+    const scopes = [...(options.scopes || [])].sort().join(" ");
+    return Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      `${options.audience || ""}|${scopes}`
+    );
+  }
+
+  /**
+   * Remove every cached resource-specific access token
+   */
+  private async clearResourceTokens(): Promise<void> {
+    const keysJson = await this.storage.getItem(
+      STORAGE_KEYS.RESOURCE_TOKEN_KEYS
+    );
+    const keys: string[] = keysJson ? JSON.parse(keysJson) : [];
+
+    for (const key of keys) {
+      await this.secureStorage.removeItem(
+        SECURE_STORE_KEYS.RESOURCE_TOKEN_PREFIX + key
+      );
     }
+    await this.storage.removeItem(STORAGE_KEYS.RESOURCE_TOKEN_KEYS);
   }
 
   /**
@@ -231,14 +1863,14 @@ export class BlitzWareAuthClient {
   async getAccessTokenFast(): Promise<string | null> {
     try {
       const accessToken = await this.getStoredToken("access_token");
-      const expiresAt = await AsyncStorage.getItem(STORAGE_KEYS.TOKEN_EXPIRY);
+      const expiresAt = await this.storage.getItem(STORAGE_KEYS.TOKEN_EXPIRY);
 
       if (!accessToken) {
         return null;
       }
 
       // Check if token is expired
-      if (expiresAt && Date.now() >= parseInt(expiresAt, 10)) {
+      if (expiresAt && (await this.isExpired(parseInt(expiresAt, 10)))) {
         return null;
       }
 
@@ -250,8 +1882,40 @@ export class BlitzWareAuthClient {
 
   /**
    * Refresh the access token using refresh token
+   * Concurrent callers share a single in-flight refresh and receive the same token
    */
   async refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.serializeRefreshTokenGrant(() =>
+        this.performTokenRefresh()
+      ).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Run refresh token grants one at a time, main and per-resource alike.
+   * With rotation, a concurrent grant would send a refresh token the other one replaced.
+   */
+  private serializeRefreshTokenGrant<T>(grant: () => Promise<T>): Promise<T> {
+    const result = this.refreshTokenGrants.then(grant);
+    this.refreshTokenGrants = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Perform the actual refresh token grant
+   */
+  private async performTokenRefresh(): Promise<string> {
+    this.logger.debug("Refreshing access token");
+    const span = this.spans.start("refreshAccessToken");
+    const hadSession =
+      !!(await this.getStoredToken("access_token")) ||
+      !!(await this.getStoredToken("refresh_token"));
+
     try {
       // First validate the refresh token using introspection
       const tokenValidation = await this.validateRefreshToken();
@@ -272,32 +1936,175 @@ export class BlitzWareAuthClient {
         );
       }
 
-      const discovery = await this.getDiscovery();
-
-      // Use expo-auth-session for token refresh
-      const tokenResult = await AuthSession.refreshAsync(
-        {
-          clientId: this.config.clientId,
-          refreshToken,
-        },
-        discovery
+      const tokenResult = await this.requestToken(
+        { grant_type: "refresh_token", refresh_token: refreshToken },
+        AuthErrorCode.REFRESH_FAILED
       );
 
+      if (tokenResult.id_token) {
+        await this.validateIdToken(tokenResult.id_token);
+      }
+
+      const expiresAt = await this.getExpiresAt(tokenResult.expires_in);
+      this.lastRefreshAt = Date.now();
+
       // Store new tokens
       await this.storeTokens({
-        accessToken: tokenResult.accessToken,
-        refreshToken: tokenResult.refreshToken || refreshToken,
-        idToken: tokenResult.idToken || undefined,
-        expiresAt: tokenResult.expiresIn
-          ? Date.now() + tokenResult.expiresIn * 1000
-          : undefined,
+        accessToken: tokenResult.access_token,
+        refreshToken: tokenResult.refresh_token || refreshToken,
+        idToken: tokenResult.id_token,
+        expiresAt,
+        scope: tokenResult.scope,
       });
 
-      return tokenResult.accessToken;
+      this.logger.debug("Access token refreshed", { expiresAt });
+      span.end();
+      this.events.emit("tokenRefreshed", { expiresAt });
+      return tokenResult.access_token;
     } catch (error) {
-      // If refresh fails, clear stored tokens
+      const refreshError = this.handleError(
+        error,
+        AuthErrorCode.REFRESH_FAILED
+      );
+
+      span.setAttribute("auth.session_kept", refreshError.isRetryable);
+      span.end(refreshError);
+
+      // A network failure says nothing about the tokens; keep the session
+      if (refreshError.isRetryable) {
+        this.logger.warn(
+          "Token refresh failed, keeping the session:",
+          refreshError
+        );
+        if (hadSession) {
+          this.events.emit("refreshFailed", { error: refreshError });
+        }
+        throw refreshError;
+      }
+
+      // The server rejected the refresh, so clear stored tokens
+      this.logger.warn(
+        "Token refresh rejected, clearing the session:",
+        refreshError
+      );
       await this.clearStorage();
-      throw this.handleError(error, AuthErrorCode.REFRESH_FAILED);
+      // Without stored tokens there was no session to lose
+      if (hadSession) {
+        this.events.emit("refreshFailed", { error: refreshError });
+        this.events.emit("sessionExpired", { error: refreshError });
+      }
+      throw refreshError;
+    }
+  }
+
+  /**
+   * Start refreshing the access token in the background shortly before it expires.
+   * Scheduling pauses while the app is in the background and catches up on resume.
+   */
+  startAutoRefresh(): void {
+    if (this.autoRefreshEnabled) {
+      return;
+    }
+
+    this.autoRefreshEnabled = true;
+    this.appStateSubscription = AppState.addEventListener(
+      "change",
+      this.handleAppStateChange
+    );
+    this.scheduleAutoRefresh();
+  }
+
+  /**
+   * Stop the background refresh scheduler
+   */
+  stopAutoRefresh(): void {
+    this.autoRefreshEnabled = false;
+    this.clearAutoRefreshTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === "active") {
+      // Reschedule on resume; an overdue refresh runs immediately
+      this.scheduleAutoRefresh();
+    } else if (state === "background") {
+      this.clearAutoRefreshTimer();
+    }
+  };
+
+  /**
+   * Schedule the next background refresh based on the stored token expiry
+   */
+  private async scheduleAutoRefresh(): Promise<void> {
+    this.clearAutoRefreshTimer();
+
+    if (!this.autoRefreshEnabled || AppState.currentState === "background") {
+      return;
+    }
+
+    let expiresAt: string | null;
+    try {
+      expiresAt = await this.storage.getItem(STORAGE_KEYS.TOKEN_EXPIRY);
+    } catch (error) {
+      return;
+    }
+
+    if (!expiresAt) {
+      return;
+    }
+
+    // Refresh before the token counts as expired, i.e. ahead of the leeway too
+    const refreshBeforeExpiry =
+      (this.config.autoRefreshBeforeExpiry ??
+        DEFAULT_AUTO_REFRESH_BEFORE_EXPIRY) +
+      (this.config.clockSkewLeeway ?? DEFAULT_CLOCK_SKEW_LEEWAY);
+    const remaining = parseInt(expiresAt, 10) - (await this.getServerTime());
+    // Tokens that live shorter than refreshBeforeExpiry would be refreshed
+    // again right away; refresh them halfway through their lifetime instead
+    const delay = Math.min(
+      Math.max(
+        remaining - refreshBeforeExpiry * 1000,
+        remaining / 2,
+        // An overdue refresh runs at once, but never right after the last one
+        this.lastRefreshAt + MIN_AUTO_REFRESH_INTERVAL - Date.now(),
+        0
+      ),
+      MAX_TIMER_DELAY
+    );
+
+    // Another schedule may have started while reading storage
+    this.clearAutoRefreshTimer();
+    this.logger.debug("Scheduling background refresh", { delay });
+    this.autoRefreshTimer = setTimeout(this.runAutoRefresh, delay);
+  }
+
+  private runAutoRefresh = async () => {
+    this.autoRefreshTimer = null;
+
+    try {
+      // Storing the new tokens schedules the next refresh
+      await this.refreshAccessToken();
+    } catch (error) {
+      // A rejected refresh clears storage, so nothing is rescheduled;
+      // a network failure keeps the session and is tried again later
+      if (
+        this.autoRefreshEnabled &&
+        this.handleError(error, AuthErrorCode.REFRESH_FAILED).isRetryable
+      ) {
+        this.clearAutoRefreshTimer();
+        this.autoRefreshTimer = setTimeout(
+          this.runAutoRefresh,
+          AUTO_REFRESH_RETRY_DELAY
+        );
+      }
+    }
+  };
+
+  private clearAutoRefreshTimer(): void {
+    if (this.autoRefreshTimer) {
+      clearTimeout(this.autoRefreshTimer);
+      this.autoRefreshTimer = null;
     }
   }
 
@@ -315,21 +2122,25 @@ export class BlitzWareAuthClient {
       }
 
       // Get user from storage first (for performance)
-      const userJson = await AsyncStorage.getItem(STORAGE_KEYS.USER);
-      let storedUser = userJson ? JSON.parse(userJson) : null;
+      const storedUser = await this.getUserFromStorage();
 
-      // If we have stored user data and token is valid, return it
-      if (storedUser) {
+      // If we have fresh stored user data and token is valid, return it
+      if (storedUser && (await this.isStoredUserFresh())) {
         return storedUser;
       }
 
-      // No stored user or need fresh data, fetch from server
-      const user = await this.fetchUserInfo();
-      await this.storeUser(user);
-
-      return user;
+      // No stored user or it is outdated, fetch from server
+      try {
+        return await this.updateUser(storedUser);
+      } catch (error) {
+        if (!storedUser) {
+          throw error;
+        }
+        this.logger.warn("Failed to reload user, using stored user:", error);
+        return storedUser;
+      }
     } catch (error) {
-      console.warn("Failed to get user:", error);
+      this.logger.warn("Failed to get user:", error);
       return null;
     }
   }
@@ -340,14 +2151,70 @@ export class BlitzWareAuthClient {
    */
   async getUserFromStorage(): Promise<BlitzWareUser | null> {
     try {
-      const userJson = await AsyncStorage.getItem(STORAGE_KEYS.USER);
+      const userJson = await this.storage.getItem(STORAGE_KEYS.USER);
       return userJson ? JSON.parse(userJson) : null;
     } catch (error) {
-      console.warn("Failed to get user from storage:", error);
+      this.logger.warn("Failed to get user from storage:", error);
       return null;
     }
   }
 
+  /**
+   * Fetch the user from the server, bypassing the stored user.
+   * Emits "userUpdated" when roles or profile fields changed.
+   * @returns The current user information.
+   * @throws BlitzWareError if there is no session or the request fails.
+   */
+  async reloadUser(): Promise<BlitzWareUser> {
+    try {
+      const accessToken = await this.getAccessToken();
+      if (!accessToken) {
+        throw new BlitzWareError(
+          "No access token available",
+          AuthErrorCode.TOKEN_EXPIRED
+        );
+      }
+
+      return await this.updateUser(await this.getUserFromStorage());
+    } catch (error) {
+      throw this.emitError(
+        this.handleError(error, AuthErrorCode.USER_INFO_FAILED)
+      );
+    }
+  }
+
+  /**
+   * Fetch and store the user, emitting "userUpdated" if it differs from the previous one
+   */
+  private async updateUser(
+    previousUser: BlitzWareUser | null
+  ): Promise<BlitzWareUser> {
+    const user = await this.fetchUserInfo();
+    await this.storeUser(user);
+
+    const changedFields = getChangedUserFields(previousUser, user);
+    if (changedFields.length > 0) {
+      this.logger.debug("User updated", { changedFields });
+      this.events.emit("userUpdated", { user, previousUser, changedFields });
+    }
+    return user;
+  }
+
+  /**
+   * Whether the stored user is younger than userCacheTtl
+   */
+  private async isStoredUserFresh(): Promise<boolean> {
+    if (this.config.userCacheTtl === undefined) {
+      return true;
+    }
+
+    const fetchedAt = await this.storage.getItem(STORAGE_KEYS.USER_FETCHED_AT);
+    return (
+      !!fetchedAt &&
+      Date.now() < parseInt(fetchedAt, 10) + this.config.userCacheTtl * 1000
+    );
+  }
+
   /**
    * Check if user has a specific role
    */
@@ -393,11 +2260,39 @@ export class BlitzWareAuthClient {
         );
       }
 
-      const response = await this.createApiClient().get("userinfo", {
-        params: {
-          access_token: accessToken,
-        },
-      });
+      const url = buildAuthUrl(this.authBaseUrl, "userinfo");
+      const send = async () => {
+        const response = await this.createApiClient().get(url, {
+          headers: await this.getAuthorizationHeaders("GET", url, accessToken),
+          validateStatus: () => true,
+        });
+        this.dpop?.updateNonce(url, response.headers["dpop-nonce"]);
+        return response;
+      };
+
+      this.logger.debug("Fetching user info");
+      let response = await send();
+      if (
+        this.dpop &&
+        response.headers["dpop-nonce"] &&
+        isDpopNonceChallenge(
+          response.status,
+          response.headers["www-authenticate"]
+        )
+      ) {
+        this.logger.debug("Retrying with the server's DPoP-Nonce", { url });
+        response = await send();
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        throw fromOAuthResponse(
+          response.data,
+          response.status,
+          AuthErrorCode.USER_INFO_FAILED,
+          "Failed to fetch user info"
+        );
+      }
+
       return response.data;
     } catch (error) {
       throw this.handleError(error, AuthErrorCode.NETWORK_ERROR);
@@ -409,30 +2304,39 @@ export class BlitzWareAuthClient {
    */
   private async storeTokens(tokens: TokenSet): Promise<void> {
     try {
-      // Store sensitive tokens in SecureStore
+      // Store sensitive tokens in secure storage
       if (tokens.accessToken) {
-        await SecureStore.setItemAsync(
+        this.introspectionCache = null;
+        await this.secureStorage.setItem(
           SECURE_STORE_KEYS.ACCESS_TOKEN,
           tokens.accessToken
         );
       }
 
       if (tokens.refreshToken) {
-        await SecureStore.setItemAsync(
+        await this.secureStorage.setItem(
           SECURE_STORE_KEYS.REFRESH_TOKEN,
           tokens.refreshToken
         );
       }
 
       if (tokens.idToken) {
-        await AsyncStorage.setItem(STORAGE_KEYS.ID_TOKEN, tokens.idToken);
+        await this.storage.setItem(STORAGE_KEYS.ID_TOKEN, tokens.idToken);
       }
 
       if (tokens.expiresAt) {
-        await AsyncStorage.setItem(
+        await this.storage.setItem(
           STORAGE_KEYS.TOKEN_EXPIRY,
           tokens.expiresAt.toString()
         );
+
+        if (this.autoRefreshEnabled) {
+          this.scheduleAutoRefresh();
+        }
+      }
+
+      if (tokens.scope) {
+        await this.storage.setItem(STORAGE_KEYS.GRANTED_SCOPES, tokens.scope);
       }
     } catch (error) {
       throw this.handleError(error, AuthErrorCode.STORAGE_ERROR);
@@ -444,9 +2348,13 @@ export class BlitzWareAuthClient {
    */
   private async storeUser(user: BlitzWareUser): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+      await this.storage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+      await this.storage.setItem(
+        STORAGE_KEYS.USER_FETCHED_AT,
+        Date.now().toString()
+      );
     } catch (error) {
-      console.warn("Failed to store user:", error);
+      this.logger.warn("Failed to store user:", error);
     }
   }
 
@@ -458,10 +2366,10 @@ export class BlitzWareAuthClient {
   ): Promise<string | null> {
     try {
       if (type === "id_token") {
-        return await AsyncStorage.getItem(STORAGE_KEYS.ID_TOKEN);
+        return await this.storage.getItem(STORAGE_KEYS.ID_TOKEN);
       }
 
-      return await SecureStore.getItemAsync(
+      return await this.secureStorage.getItem(
         type === "access_token"
           ? SECURE_STORE_KEYS.ACCESS_TOKEN
           : SECURE_STORE_KEYS.REFRESH_TOKEN
@@ -475,19 +2383,23 @@ export class BlitzWareAuthClient {
    * Clear all stored authentication data
    */
   private async clearStorage(): Promise<void> {
+    this.clearAutoRefreshTimer();
+    this.introspectionCache = null;
+
     try {
-      // Clear SecureStore
-      await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.ACCESS_TOKEN);
-      await SecureStore.deleteItemAsync(SECURE_STORE_KEYS.REFRESH_TOKEN);
-
-      // Clear AsyncStorage
-      await AsyncStorage.multiRemove([
-        STORAGE_KEYS.ID_TOKEN,
-        STORAGE_KEYS.USER,
-        STORAGE_KEYS.TOKEN_EXPIRY,
-      ]);
+      // Clear secure storage
+      await this.secureStorage.removeItem(SECURE_STORE_KEYS.ACCESS_TOKEN);
+      await this.secureStorage.removeItem(SECURE_STORE_KEYS.REFRESH_TOKEN);
+
+      // Clear remaining storage
+      await this.storage.removeItem(STORAGE_KEYS.ID_TOKEN);
+      await this.storage.removeItem(STORAGE_KEYS.USER);
+      await this.storage.removeItem(STORAGE_KEYS.USER_FETCHED_AT);
+      await this.storage.removeItem(STORAGE_KEYS.TOKEN_EXPIRY);
+      await this.storage.removeItem(STORAGE_KEYS.GRANTED_SCOPES);
+      await this.clearResourceTokens();
     } catch (error) {
-      console.warn("Failed to clear storage:", error);
+      this.logger.warn("Failed to clear storage:", error);
     }
   }
 
@@ -505,6 +2417,10 @@ export class BlitzWareAuthClient {
     token: string,
     tokenTypeHint: "access_token" | "refresh_token"
   ): Promise<TokenIntrospectionResponse> => {
+    const span = this.spans.start("introspectToken", {
+      "auth.token_type_hint": tokenTypeHint,
+    });
+
     try {
       const requestBody: {
         token: string;
@@ -517,24 +2433,38 @@ export class BlitzWareAuthClient {
         client_id: this.config.clientId,
       };
 
-      const response = await this.createApiClient().post(
-        "introspect",
-        requestBody
+      const response = await this.postToAuthServer(
+        buildAuthUrl(this.authBaseUrl, "introspect"),
+        requestBody,
+        "application/json"
       );
 
+      if (response.status < 200 || response.status >= 300) {
+        throw fromOAuthResponse(
+          response.data,
+          response.status,
+          AuthErrorCode.INTROSPECTION_FAILED,
+          "Token introspection failed"
+        );
+      }
+
+      span.setAttribute("auth.active", !!response.data.active);
+      span.end();
       return response.data;
     } catch (error) {
-      throw this.handleError(error, AuthErrorCode.INTROSPECTION_FAILED);
+      const introspectionError = this.handleError(
+        error,
+        AuthErrorCode.INTROSPECTION_FAILED
+      );
+      span.end(introspectionError);
+      throw introspectionError;
     }
   };
 
   /**
-   * Validates an access token by introspecting it with the authorization server.
-   * This provides authoritative validation from the server.
-   * @param clientId - The client ID.
-   * @param clientSecret - The client secret (optional for public clients).
+   * Validates an access token according to the configured introspection policy.
+   * With "always" or an expired "ttl" cache entry this asks the authorization server.
    * @returns Promise that resolves to introspection result.
-   * @throws BlitzWareAuthError if validation fails.
    */
   private validateAccessToken =
     async (): Promise<TokenIntrospectionResponse> => {
@@ -543,9 +2473,43 @@ export class BlitzWareAuthClient {
         return { active: false };
       }
 
+      const policy = this.config.introspectionPolicy || { mode: "always" };
+
+      if (policy.mode === "local-only") {
+        return { active: await this.isTokenValidLocally() };
+      }
+
+      const cached = this.introspectionCache;
+      if (
+        policy.mode === "ttl" &&
+        cached &&
+        cached.token === token &&
+        Date.now() < cached.expiresAt
+      ) {
+        return cached.result;
+      }
+
       try {
-        return await this.introspectToken(token, "access_token");
+        const result = await this.introspectToken(token, "access_token");
+        this.logger.debug("Access token introspected", {
+          active: result.active,
+        });
+
+        if (policy.mode === "ttl") {
+          this.introspectionCache = {
+            token,
+            result,
+            expiresAt:
+              Date.now() + (policy.ttl ?? DEFAULT_INTROSPECTION_TTL) * 1000,
+          };
+        }
+
+        return result;
       } catch (error) {
+        // A network failure says nothing about the token
+        if (this.isRetryableError(error)) {
+          throw error;
+        }
         // If introspection fails, token is considered invalid
         return { active: false };
       }
@@ -565,9 +2529,18 @@ export class BlitzWareAuthClient {
         return { active: false };
       }
 
+      // The token endpoint rejects invalid refresh tokens on its own
+      if (this.config.introspectionPolicy?.mode === "local-only") {
+        return { active: true };
+      }
+
       try {
         return await this.introspectToken(token, "refresh_token");
       } catch (error) {
+        // A network failure says nothing about the token
+        if (this.isRetryableError(error)) {
+          throw error;
+        }
         // If introspection fails, token is considered invalid
         return { active: false };
       }
@@ -604,7 +2577,7 @@ export class BlitzWareAuthClient {
 
       return JSON.parse(jsonPayload);
     } catch (error) {
-      console.error(error);
+      this.logger.error("Failed to decode JWT:", error);
       return {};
     }
   };
@@ -650,19 +2623,102 @@ export class BlitzWareAuthClient {
     const { exp } = payload;
     const expiration = this.parseExp(exp);
     if (!expiration) return false;
-    return expiration > new Date();
+    return !(await this.isExpired(expiration.getTime()));
   };
 
+  /**
+   * Offset in milliseconds between the server clock and the device clock.
+   * It is learned from token responses and kept across restarts.
+   * @returns Milliseconds to add to Date.now() to get the server time.
+   */
+  async getClockOffset(): Promise<number> {
+    if (this.clockOffset === null) {
+      let stored: string | null = null;
+      try {
+        stored = await this.storage.getItem(STORAGE_KEYS.CLOCK_OFFSET);
+      } catch (error) {
+        this.logger.warn("Failed to load clock offset:", error);
+      }
+      // A token response may have calibrated the clock while loading
+      if (this.clockOffset === null) {
+        this.clockOffset = (stored && parseInt(stored, 10)) || 0;
+      }
+    }
+    return this.clockOffset;
+  }
+
+  /**
+   * Current time on the server clock, in milliseconds
+   */
+  private async getServerTime(): Promise<number> {
+    return Date.now() + (await this.getClockOffset());
+  }
+
+  /**
+   * Expiry in server time of a token that expires in the given seconds
+   */
+  private async getExpiresAt(expiresIn?: number): Promise<number | undefined> {
+    return expiresIn
+      ? (await this.getServerTime()) + expiresIn * 1000
+      : undefined;
+  }
+
+  /**
+   * Whether an expiry in server time has passed, allowing for clockSkewLeeway
+   */
+  private async isExpired(expiresAt: number): Promise<boolean> {
+    return isTokenExpired(
+      expiresAt,
+      this.config.clockSkewLeeway ?? DEFAULT_CLOCK_SKEW_LEEWAY,
+      await this.getClockOffset()
+    );
+  }
+
+  /**
+   * Learn the server clock from a token response: its Date header or,
+   * when the header is not readable, the iat of a freshly issued token
+   */
+  private async updateClockOffset(response: AxiosResponse): Promise<void> {
+    let serverTime = Date.parse(response.headers?.date ?? "");
+
+    if (isNaN(serverTime)) {
+      // Opaque access tokens have no iat; fall back to the ID token
+      const iat = [response.data?.access_token, response.data?.id_token]
+        .map((token) => (token ? this.parseJwt(token).iat : undefined))
+        .find((value) => typeof value === "number");
+      if (iat === undefined) {
+        return;
+      }
+      serverTime = iat * 1000;
+    }
+
+    this.clockOffset = serverTime - Date.now();
+    this.logger.debug("Clock offset updated", {
+      clockOffset: this.clockOffset,
+    });
+
+    try {
+      await this.storage.setItem(
+        STORAGE_KEYS.CLOCK_OFFSET,
+        this.clockOffset.toString()
+      );
+    } catch (error) {
+      this.logger.warn("Failed to store clock offset:", error);
+    }
+  }
+
   /**
    * Handle and normalize errors
    */
   private handleError(error: any, code: AuthErrorCode): BlitzWareError {
-    if (error instanceof BlitzWareError) {
-      return error;
-    }
+    return toBlitzWareError(error, code);
+  }
 
-    const message =
-      error?.message || error?.toString() || "Unknown error occurred";
-    return new BlitzWareError(message, code);
+  /**
+   * Emit an error event and return the error for rethrowing
+   */
+  private emitError(error: BlitzWareError): BlitzWareError {
+    this.events.emit("error", { error });
+    return error;
   }
 }
@@ -0,0 +1,166 @@
+/**
+ * BlitzWare React Native SDK - DPoP Proofs
+ *
+ * Creates DPoP proof JWTs (RFC 9449) signed with a per-install P-256 key pair.
+ * The private key is kept in token storage and survives logout, so the
+ * server keeps seeing the same key for this installation.
+ */
+import { p256 } from "@noble/curves/nist";
+import { sha256 } from "@noble/hashes/sha2";
+import { utf8ToBytes } from "@noble/hashes/utils";
+import { Buffer } from "buffer";
+import * as Crypto from "expo-crypto";
+import { TokenStorage } from "./types";
+
+interface DpopPublicJwk {
+  kty: "EC";
+  crv: "P-256";
+  x: string;
+  y: string;
+}
+
+interface DpopKeyPair {
+  privateKey: Uint8Array;
+  publicJwk: DpopPublicJwk;
+}
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  Buffer.from(bytes)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const base64UrlDecode = (value: string): Uint8Array =>
+  new Uint8Array(
+    Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64")
+  );
+
+const encodeJson = (value: object): string =>
+  base64UrlEncode(utf8ToBytes(JSON.stringify(value)));
+
+// DPoP-Nonce values are issued per server
+const getOrigin = (url: string): string => {
+  const match = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i);
+  return match ? match[0].toLowerCase() : url;
+};
+
+// The htu claim is the request URL without query and fragment
+const getHtu = (url: string): string => url.split(/[?#]/)[0];
+
+export class DpopProofGenerator {
+  private storage: TokenStorage;
+  private storageKey: string;
+  private getClockOffset: () => Promise<number>;
+  private keyPair: Promise<DpopKeyPair> | null = null;
+  private nonces = new Map<string, string>();
+
+  constructor(
+    storage: TokenStorage,
+    storageKey: string,
+    getClockOffset: () => Promise<number> = async () => 0
+  ) {
+    this.storage = storage;
+    this.storageKey = storageKey;
+    this.getClockOffset = getClockOffset;
+  }
+
+  /**
+   * Creates a signed DPoP proof for a request.
+   * @param method - The HTTP method of the request.
+   * @param url - The absolute request URL.
+   * @param accessToken - Access token sent with the request, bound through the ath claim.
+   * @returns The DPoP proof JWT for the DPoP header.
+   */
+  async createProof(
+    method: string,
+    url: string,
+    accessToken?: string
+  ): Promise<string> {
+    const { privateKey, publicJwk } = await this.getKeyPair();
+    // The server checks iat against its own clock
+    const now = Date.now() + (await this.getClockOffset());
+
+    const header = { typ: "dpop+jwt", alg: "ES256", jwk: publicJwk };
+    const payload: Record<string, string | number> = {
+      jti: Crypto.randomUUID(),
+      htm: method.toUpperCase(),
+      htu: getHtu(url),
+      iat: Math.floor(now / 1000),
+    };
+
+    const nonce = this.nonces.get(getOrigin(url));
+    if (nonce) {
+      payload.nonce = nonce;
+    }
+    if (accessToken) {
+      payload.ath = base64UrlEncode(sha256(utf8ToBytes(accessToken)));
+    }
+
+    const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+    // noble signs deterministically (RFC 6979), so no RNG is needed per proof
+    const signature = p256.sign(sha256(utf8ToBytes(signingInput)), privateKey);
+
+    return `${signingInput}.${base64UrlEncode(signature.toCompactRawBytes())}`;
+  }
+
+  /**
+   * Remembers the DPoP-Nonce a server returned for use in later proofs
+   * @returns True if the server sent a nonce that was not known yet
+   */
+  updateNonce(url: string, nonce?: string | null): boolean {
+    if (!nonce) {
+      return false;
+    }
+
+    const origin = getOrigin(url);
+    const changed = this.nonces.get(origin) !== nonce;
+    this.nonces.set(origin, nonce);
+    return changed;
+  }
+
+  /**
+   * Load the key pair from storage, generating and storing one on first use
+   */
+  private getKeyPair(): Promise<DpopKeyPair> {
+    if (!this.keyPair) {
+      this.keyPair = this.loadKeyPair().catch((error) => {
+        this.keyPair = null;
+        throw error;
+      });
+    }
+    return this.keyPair;
+  }
+
+  private async loadKeyPair(): Promise<DpopKeyPair> {
+    const stored = await this.storage.getItem(this.storageKey);
+    if (stored) {
+      const privateKey = base64UrlDecode(stored);
+      if (p256.utils.isValidSecretKey(privateKey)) {
+        return this.toKeyPair(privateKey);
+      }
+    }
+
+    let privateKey = Crypto.getRandomBytes(32);
+    while (!p256.utils.isValidSecretKey(privateKey)) {
+      privateKey = Crypto.getRandomBytes(32);
+    }
+
+    await this.storage.setItem(this.storageKey, base64UrlEncode(privateKey));
+    return this.toKeyPair(privateKey);
+  }
+
+  private toKeyPair(privateKey: Uint8Array): DpopKeyPair {
+    // Uncompressed point: 0x04 || x || y
+    const publicKey = p256.getPublicKey(privateKey, false);
+    return {
+      privateKey,
+      publicJwk: {
+        kty: "EC",
+        crv: "P-256",
+        x: base64UrlEncode(publicKey.slice(1, 33)),
+        y: base64UrlEncode(publicKey.slice(33, 65)),
+      },
+    };
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * BlitzWare React Native SDK - ID Token Validation
+ *
+ * Verifies ID token signatures against the authorization server's JWKS
+ * and validates the standard OpenID Connect claims.
+ */
+import axios, { AxiosInstance } from "axios";
+import { KEYUTIL, KJUR, RSAKey, b64utoutf8, hextob64u } from "jsrsasign";
+import { AuthErrorCode, BlitzWareError, IdTokenClaims } from "./types";
+import { toBlitzWareError } from "./errors";
+
+const SUPPORTED_ALGORITHMS = ["RS256", "ES256"];
+
+interface JsonWebKey {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
+export interface IdTokenValidationOptions {
+  issuer: string;
+  clientId: string;
+  /** Allowed clock skew in seconds for exp/iat checks */
+  leeway: number;
+  /** Milliseconds to add to the device clock to get the server time */
+  clockOffset: number;
+  /** Nonce sent with the authorization request, if any */
+  nonce?: string;
+  /** max_age sent with the authorization request, if any */
+  maxAge?: number;
+  /** Authorization code returned alongside the ID token (hybrid flow), checked via c_hash */
+  code?: string;
+}
+
+const stripTrailingSlash = (value: string): string => value.replace(/\/+$/, "");
+
+export class IdTokenValidator {
+  private keys = new Map<string, JsonWebKey>();
+  private getJwksUri: () => Promise<string>;
+  private createHttpClient: () => AxiosInstance;
+
+  /**
+   * @param getJwksUri - Resolves the jwks_uri from the discovery document.
+   * @param createHttpClient - Creates the client used to fetch the JWKS, e.g. one that retries.
+   */
+  constructor(
+    getJwksUri: () => Promise<string>,
+    createHttpClient: () => AxiosInstance = () => axios.create()
+  ) {
+    this.getJwksUri = getJwksUri;
+    this.createHttpClient = createHttpClient;
+  }
+
+  /**
+   * Verifies the ID token signature and claims.
+   * @param idToken - The raw ID token.
+   * @param options - Expected issuer, audience, leeway and nonce.
+   * @returns The validated ID token claims.
+   * @throws BlitzWareError with ID_TOKEN_INVALID if any check fails.
+   */
+  async validate(
+    idToken: string,
+    options: IdTokenValidationOptions
+  ): Promise<IdTokenClaims> {
+    const parts = idToken.split(".");
+    if (parts.length !== 3) {
+      throw this.invalid("ID token is not a valid JWT");
+    }
+
+    const header = this.decodeSegment(parts[0]);
+    const claims = this.decodeSegment(parts[1]) as IdTokenClaims | null;
+    if (!header || !claims) {
+      throw this.invalid("ID token could not be decoded");
+    }
+
+    const alg = header.alg;
+    if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+      throw this.invalid(`Unsupported ID token algorithm: ${alg}`);
+    }
+
+    const jwk = await this.getKey(header.kid);
+    if (!jwk) {
+      throw this.invalid("No matching signing key found for ID token");
+    }
+
+    let signatureValid = false;
+    try {
+      const key = KEYUTIL.getKey(jwk as KJUR.jws.JWS.JsonWebKey) as
+        | RSAKey
+        | KJUR.crypto.ECDSA;
+      signatureValid = KJUR.jws.JWS.verify(idToken, key, [alg]);
+    } catch {
+      signatureValid = false;
+    }
+
+    if (!signatureValid) {
+      throw this.invalid("ID token signature is invalid");
+    }
+
+    this.validateClaims(claims, options);
+
+    if (options.code !== undefined) {
+      this.validateCodeHash(claims, options.code);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Checks iss, aud, azp, exp, iat, nonce and auth_time
+   */
+  private validateClaims(
+    claims: IdTokenClaims,
+    options: IdTokenValidationOptions
+  ): void {
+    const now = Math.floor((Date.now() + options.clockOffset) / 1000);
+
+    if (
+      !claims.iss ||
+      stripTrailingSlash(claims.iss) !== stripTrailingSlash(options.issuer)
+    ) {
+      throw this.invalid("ID token issuer does not match");
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.clientId)) {
+      throw this.invalid("ID token audience does not match client ID");
+    }
+
+    if (audiences.length > 1 && claims.azp !== options.clientId) {
+      throw this.invalid("ID token authorized party does not match client ID");
+    }
+
+    if (typeof claims.exp !== "number" || now > claims.exp + options.leeway) {
+      throw this.invalid("ID token is expired");
+    }
+
+    if (typeof claims.iat !== "number" || claims.iat > now + options.leeway) {
+      throw this.invalid("ID token was issued in the future");
+    }
+
+    if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+      throw this.invalid("ID token nonce does not match");
+    }
+
+    if (options.maxAge !== undefined) {
+      if (typeof claims.auth_time !== "number") {
+        throw this.invalid("ID token is missing auth_time");
+      }
+      if (now > claims.auth_time + options.maxAge + options.leeway) {
+        throw this.invalid("ID token authentication is older than max_age");
+      }
+    }
+  }
+
+  /**
+   * Checks c_hash: the base64url-encoded left half of the code's hash
+   */
+  private validateCodeHash(claims: IdTokenClaims, code: string): void {
+    // RS256 and ES256 both use SHA-256
+    const hash = KJUR.crypto.Util.sha256(code);
+    const expected = hextob64u(hash.substring(0, hash.length / 2));
+
+    if (claims.c_hash !== expected) {
+      throw this.invalid(
+        "ID token c_hash does not match the authorization code"
+      );
+    }
+  }
+
+  /**
+   * Get a signing key by kid, refetching the JWKS once on a cache miss
+   * so rotated keys are picked up.
+   */
+  private async getKey(kid?: string): Promise<JsonWebKey | null> {
+    const cached = this.findKey(kid);
+    if (cached) {
+      return cached;
+    }
+
+    await this.fetchKeys();
+    return this.findKey(kid);
+  }
+
+  private findKey(kid?: string): JsonWebKey | null {
+    if (kid) {
+      return this.keys.get(kid) || null;
+    }
+
+    // Without a kid the key is only unambiguous if the set holds one key
+    return this.keys.size === 1 ? Array.from(this.keys.values())[0] : null;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const jwksUri = await this.getJwksUri();
+      const response = await this.createHttpClient().get(jwksUri);
+      const keys: JsonWebKey[] = response.data?.keys || [];
+
+      this.keys.clear();
+      keys
+        .filter((key) => !key.use || key.use === "sig")
+        .forEach((key, index) => {
+          this.keys.set(key.kid || `__key_${index}`, key);
+        });
+    } catch (error) {
+      // Keeps isRetryable, so an offline refresh does not look like a rejection
+      throw toBlitzWareError(error, AuthErrorCode.NETWORK_ERROR);
+    }
+  }
+
+  private decodeSegment(segment: string): Record<string, any> | null {
+    try {
+      return JSON.parse(b64utoutf8(segment));
+    } catch {
+      return null;
+    }
+  }
+
+  private invalid(message: string): BlitzWareError {
+    return new BlitzWareError(message, AuthErrorCode.ID_TOKEN_INVALID);
+  }
+}
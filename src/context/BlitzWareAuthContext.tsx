@@ -5,12 +5,16 @@ import React, {
   useState,
   useCallback,
 } from "react";
+import { CreateAxiosDefaults } from "axios";
 import { BlitzWareAuthClient } from "../BlitzWareAuthClient";
 import {
   AuthState,
   BlitzWareAuthContextValue,
   BlitzWareProviderProps,
   BlitzWareError,
+  LogoutOptions,
+  LoginOptions,
+  AccessTokenOptions,
 } from "../types";
 
 const BlitzWareAuthContext = createContext<
@@ -29,6 +33,7 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
   });
 
   const [authClient] = useState(() => new BlitzWareAuthClient(config));
+  const [grantedScopes, setGrantedScopes] = useState<string[]>([]);
 
   // Initialize authentication state
   const initializeAuth = useCallback(async () => {
@@ -53,7 +58,7 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
       const isValid = await authClient.isAuthenticated();
 
       if (!isValid) {
-        // Token is invalid or expired, try to refresh
+        // Token is invalid or expired, try to refresh (shared with concurrent callers)
         try {
           await authClient.refreshAccessToken();
           // After successful refresh, fetch user info
@@ -65,14 +70,20 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
             error: null,
           });
         } catch (refreshError) {
-          // Refresh failed, clear everything
-          await authClient.logout();
-          setAuthState({
-            isAuthenticated: false,
-            isLoading: false,
-            user: null,
-            error: null,
-          });
+          // A rejected refresh resets the state through the sessionExpired event;
+          // a network failure keeps the stored session
+          if (
+            refreshError instanceof BlitzWareError &&
+            refreshError.isRetryable
+          ) {
+            const user = await authClient.getUserFromStorage();
+            setAuthState({
+              isAuthenticated: true,
+              isLoading: false,
+              user,
+              error: refreshError,
+            });
+          }
         }
       } else {
         // Token is valid, get user info
@@ -98,67 +109,108 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
     }
   }, [authClient]);
 
-  // Login function
-  const login = useCallback(async () => {
-    try {
-      setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+  // Mirror client events into React state
+  useEffect(() => {
+    const signedOut: AuthState = {
+      isAuthenticated: false,
+      isLoading: false,
+      user: null,
+      error: null,
+    };
 
-      const user = await authClient.login();
+    const loadGrantedScopes = () => {
+      authClient.getGrantedScopes().then(setGrantedScopes);
+    };
 
-      setAuthState({
-        isAuthenticated: true,
-        isLoading: false,
-        user,
-        error: null,
-      });
-    } catch (error) {
-      setAuthState((prev) => ({
-        ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error : new Error("Login failed"),
-      }));
-      throw error;
-    }
+    const unsubscribers = [
+      authClient.on("login", loadGrantedScopes),
+      authClient.on("tokenRefreshed", loadGrantedScopes),
+      authClient.on("logout", () => setGrantedScopes([])),
+      authClient.on("sessionExpired", () => setGrantedScopes([])),
+      authClient.on("login", ({ user }) => {
+        setAuthState({
+          isAuthenticated: true,
+          isLoading: false,
+          user,
+          error: null,
+        });
+      }),
+      authClient.on("logout", () => setAuthState(signedOut)),
+      authClient.on("sessionExpired", () => setAuthState(signedOut)),
+      authClient.on("userUpdated", ({ user }) => {
+        setAuthState((prev) => ({ ...prev, user }));
+      }),
+      authClient.on("error", ({ error }) => {
+        setAuthState((prev) => ({ ...prev, error }));
+      }),
+    ];
+
+    // Restore scopes granted in a previous session
+    loadGrantedScopes();
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [authClient]);
 
-  // Logout function
-  const logout = useCallback(async () => {
-    try {
-      setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+  // Login function; state is updated by the login/error events
+  const login = useCallback(
+    async (options?: LoginOptions) => {
+      try {
+        setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+        await authClient.login(options);
+      } catch (error) {
+        setAuthState((prev) => ({ ...prev, isLoading: false }));
+        throw error;
+      }
+    },
+    [authClient]
+  );
 
-      await authClient.logout();
+  // Request additional scopes; state is updated by the login/error events
+  const requestScopes = useCallback(
+    async (scopes: string[], options?: LoginOptions) => {
+      try {
+        setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+        return await authClient.requestScopes(scopes, options);
+      } catch (error) {
+        setAuthState((prev) => ({ ...prev, isLoading: false }));
+        throw error;
+      }
+    },
+    [authClient]
+  );
 
-      setAuthState({
-        isAuthenticated: false,
-        isLoading: false,
-        user: null,
-        error: null,
-      });
-    } catch (error) {
-      setAuthState((prev) => ({
-        ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error : new Error("Logout failed"),
-      }));
-      throw error;
-    }
-  }, [authClient]);
+  // Device code login; state is updated by the login/error events
+  const loginWithDeviceCode = useCallback(
+    () => authClient.loginWithDeviceCode(),
+    [authClient]
+  );
+
+  // Logout function; state is updated by the logout/error events
+  const logout = useCallback(
+    async (options?: LogoutOptions) => {
+      try {
+        setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
+        return await authClient.logout(options);
+      } catch (error) {
+        setAuthState((prev) => ({ ...prev, isLoading: false }));
+        throw error;
+      }
+    },
+    [authClient]
+  );
 
   // Get access token with automatic validation/refresh
-  const getAccessToken = useCallback(async (): Promise<string | null> => {
-    try {
-      return await authClient.getAccessToken();
-    } catch (error) {
-      setAuthState((prev) => ({
-        ...prev,
-        error:
-          error instanceof Error
-            ? error
-            : new Error("Failed to get access token"),
-      }));
-      return null;
-    }
-  }, [authClient]);
+  const getAccessToken = useCallback(
+    async (options?: AccessTokenOptions): Promise<string | null> => {
+      try {
+        return await authClient.getAccessToken(options);
+      } catch (error) {
+        // Reported through the error event
+        return null;
+      }
+    },
+    [authClient]
+  );
 
   // Validate current session
   const validateSession = useCallback(async (): Promise<boolean> => {
@@ -166,18 +218,12 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
       const isValid = await authClient.isAuthenticated();
 
       if (!isValid) {
-        // Try to refresh
+        // Try to refresh (shared with concurrent callers)
         try {
           await authClient.refreshAccessToken();
           return true;
         } catch (refreshError) {
-          // Refresh failed, clear session
-          setAuthState({
-            isAuthenticated: false,
-            isLoading: false,
-            user: null,
-            error: null,
-          });
+          // Refresh failed; the sessionExpired event clears the session
           return false;
         }
       }
@@ -188,6 +234,28 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
     }
   }, [authClient]);
 
+  // Auth failures of these helpers reach state through the error event
+  const createAuthenticatedAxios = useCallback(
+    (axiosConfig?: CreateAxiosDefaults) =>
+      authClient.createAuthenticatedAxios(axiosConfig),
+    [authClient]
+  );
+
+  const fetchWithAuth = useCallback(
+    (input: RequestInfo | URL, init?: RequestInit) =>
+      authClient.fetchWithAuth(input, init),
+    [authClient]
+  );
+
+  const createDpopProof = useCallback(
+    (method: string, url: string, accessToken?: string) =>
+      authClient.createDpopProof(method, url, accessToken),
+    [authClient]
+  );
+
+  // Reload the user; state is updated by the userUpdated/error events
+  const reloadUser = useCallback(() => authClient.reloadUser(), [authClient]);
+
   // Check if user has specific role
   const hasRole = useCallback(
     (role: string): boolean => {
@@ -212,14 +280,31 @@ export const BlitzWareAuthProvider: React.FC<BlitzWareProviderProps> = ({
     initializeAuth();
   }, [initializeAuth]);
 
+  // Start background token refresh if enabled
+  useEffect(() => {
+    if (!config.autoRefresh) {
+      return undefined;
+    }
+
+    authClient.startAutoRefresh();
+    return () => authClient.stopAutoRefresh();
+  }, [authClient, config.autoRefresh]);
+
   const contextValue: BlitzWareAuthContextValue = {
     ...authState,
     login,
+    loginWithDeviceCode,
+    requestScopes,
+    grantedScopes,
     logout,
     getAccessToken,
     hasRole,
     refresh,
     validateSession,
+    createAuthenticatedAxios,
+    fetchWithAuth,
+    createDpopProof,
+    reloadUser,
   };
 
   return (
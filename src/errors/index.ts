@@ -0,0 +1,127 @@
+import * as AuthSession from "expo-auth-session";
+import axios from "axios";
+import { AuthErrorCode, BlitzWareError } from "../types";
+
+/**
+ * OAuth error values (RFC 6749, OpenID Connect Core) with a dedicated error code
+ */
+const OAUTH_ERROR_CODES: Record<string, AuthErrorCode> = {
+  invalid_grant: AuthErrorCode.INVALID_GRANT,
+  consent_required: AuthErrorCode.CONSENT_REQUIRED,
+  interaction_required: AuthErrorCode.INTERACTION_REQUIRED,
+  login_required: AuthErrorCode.LOGIN_REQUIRED,
+  access_denied: AuthErrorCode.ACCESS_DENIED,
+};
+
+// The server may succeed on a later attempt
+const RETRYABLE_OAUTH_ERRORS = ["server_error", "temporarily_unavailable"];
+
+const isRetryableFailure = (
+  statusCode?: number,
+  oauthError?: string
+): boolean => {
+  if (oauthError) {
+    return RETRYABLE_OAUTH_ERRORS.includes(oauthError);
+  }
+  return (
+    statusCode === 408 ||
+    statusCode === 429 ||
+    (statusCode !== undefined && statusCode >= 500)
+  );
+};
+
+/**
+ * Build an error from an OAuth error response (RFC 6749 section 5.2)
+ * @param data - The response body or redirect parameters.
+ * @param statusCode - The HTTP status, if the error came from an HTTP response.
+ * @param code - The code to use when the OAuth error has no dedicated code.
+ * @param fallbackMessage - The message to use when the server sent no description.
+ * @param cause - The original error, if any.
+ */
+export const fromOAuthResponse = (
+  data: any,
+  statusCode: number | undefined,
+  code: AuthErrorCode,
+  fallbackMessage: string,
+  cause?: unknown
+): BlitzWareError => {
+  const oauthError = typeof data?.error === "string" ? data.error : undefined;
+  const errorDescription =
+    typeof data?.error_description === "string"
+      ? data.error_description
+      : undefined;
+
+  return new BlitzWareError(
+    errorDescription || oauthError || fallbackMessage,
+    (oauthError && OAUTH_ERROR_CODES[oauthError]) || code,
+    statusCode,
+    {
+      oauthError,
+      errorDescription,
+      cause,
+      isRetryable: isRetryableFailure(statusCode, oauthError),
+    }
+  );
+};
+
+/**
+ * Normalize anything thrown by axios, expo-auth-session or the SDK into a BlitzWareError
+ * @param error - The thrown value.
+ * @param code - The code for errors that carry no more specific information.
+ */
+export const toBlitzWareError = (
+  error: any,
+  code: AuthErrorCode
+): BlitzWareError => {
+  if (error instanceof BlitzWareError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return fromOAuthResponse(
+        error.response.data,
+        error.response.status,
+        code,
+        error.message,
+        error
+      );
+    }
+
+    // The request never got a response: offline, DNS failure or timeout
+    return new BlitzWareError(
+      error.message || "Network request failed",
+      AuthErrorCode.NETWORK_ERROR,
+      undefined,
+      { cause: error, isRetryable: true }
+    );
+  }
+
+  // AuthError and TokenError keep the OAuth error parameters
+  if (error instanceof AuthSession.ResponseError) {
+    return fromOAuthResponse(
+      error.params,
+      undefined,
+      code,
+      "Authorization server error",
+      error
+    );
+  }
+
+  // fetch() rejects with a TypeError when the request fails on the network
+  if (
+    error instanceof TypeError &&
+    /network request failed|failed to fetch/i.test(error.message)
+  ) {
+    return new BlitzWareError(
+      error.message,
+      AuthErrorCode.NETWORK_ERROR,
+      undefined,
+      { cause: error, isRetryable: true }
+    );
+  }
+
+  const message =
+    error?.message || error?.toString() || "Unknown error occurred";
+  return new BlitzWareError(message, code, undefined, { cause: error });
+};
@@ -0,0 +1,48 @@
+import { BlitzWareAuthEventHandler, BlitzWareAuthEvents } from "../types";
+import { AuthLogger } from "../logger";
+
+/**
+ * Minimal typed event emitter for auth events
+ */
+export class AuthEventEmitter {
+  private handlers: {
+    [E in keyof BlitzWareAuthEvents]?: Set<BlitzWareAuthEventHandler<E>>;
+  } = {};
+  private logger: AuthLogger;
+
+  constructor(logger: AuthLogger = new AuthLogger()) {
+    this.logger = logger;
+  }
+
+  on<E extends keyof BlitzWareAuthEvents>(
+    event: E,
+    handler: BlitzWareAuthEventHandler<E>
+  ): () => void {
+    if (!this.handlers[event]) {
+      this.handlers[event] = new Set() as (typeof this.handlers)[E];
+    }
+    this.handlers[event]!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends keyof BlitzWareAuthEvents>(
+    event: E,
+    handler: BlitzWareAuthEventHandler<E>
+  ): void {
+    this.handlers[event]?.delete(handler);
+  }
+
+  emit<E extends keyof BlitzWareAuthEvents>(
+    event: E,
+    payload: BlitzWareAuthEvents[E]
+  ): void {
+    this.handlers[event]?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        // A failing listener must not break the auth flow
+        this.logger.warn(`"${event}" event handler failed:`, error);
+      }
+    });
+  }
+}
@@ -1,5 +1,11 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AxiosInstance, CreateAxiosDefaults } from 'axios';
 import { useBlitzWareAuth } from '../context/BlitzWareAuthContext';
-import { BlitzWareUser } from '../types';
+import {
+  BlitzWareUser,
+  DeviceAuthorization,
+  DeviceCodeLoginStatus
+} from '../types';
 
 /**
  * Hook to get the current authenticated user
@@ -57,6 +63,14 @@ export const useLogin = () => {
   return login;
 };
 
+/**
+ * Hook to get the scopes the user has consented to
+ */
+export const useGrantedScopes = (): string[] => {
+  const { grantedScopes } = useBlitzWareAuth();
+  return grantedScopes;
+};
+
 /**
  * Hook to get logout function
  */
@@ -80,4 +94,94 @@ export const useRefresh = () => {
 export const useValidateSession = () => {
   const { validateSession } = useBlitzWareAuth();
   return validateSession;
+};
+
+/**
+ * Hook to get an axios instance that attaches the access token
+ * The instance is created once; later changes to config are ignored
+ */
+export const useAuthenticatedAxios = (
+  config?: CreateAxiosDefaults
+): AxiosInstance => {
+  const { createAuthenticatedAxios } = useBlitzWareAuth();
+  const [instance] = useState(() => createAuthenticatedAxios(config));
+  return instance;
+};
+
+/**
+ * Hook to get a fetch() replacement that attaches the access token
+ */
+export const useAuthFetch = () => {
+  const { fetchWithAuth } = useBlitzWareAuth();
+  return fetchWithAuth;
+};
+
+/**
+ * Hook to run a device code login and render its progress
+ * Call start() to request a code, show userCode/verificationUri, and wait for status "success"
+ */
+export const useDeviceCodeLogin = () => {
+  const { loginWithDeviceCode } = useBlitzWareAuth();
+  const [status, setStatus] = useState<DeviceCodeLoginStatus>('idle');
+  const [authorization, setAuthorization] =
+    useState<DeviceAuthorization | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const activeRef = useRef<DeviceAuthorization | null>(null);
+  const attemptRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    attemptRef.current += 1;
+    activeRef.current?.cancel();
+    activeRef.current = null;
+    setStatus('idle');
+    setAuthorization(null);
+    setError(null);
+  }, []);
+
+  const start = useCallback(async () => {
+    const attempt = ++attemptRef.current;
+    activeRef.current?.cancel();
+    activeRef.current = null;
+    setStatus('requesting');
+    setAuthorization(null);
+    setError(null);
+
+    try {
+      const pending = await loginWithDeviceCode();
+      if (attempt !== attemptRef.current) {
+        pending.cancel();
+        return;
+      }
+
+      activeRef.current = pending;
+      setAuthorization(pending);
+      setStatus('polling');
+
+      await pending.waitForUser();
+
+      if (attempt === attemptRef.current) {
+        setStatus('success');
+      }
+    } catch (err) {
+      // Ignore failures of a login that was cancelled or replaced
+      if (attempt !== attemptRef.current) {
+        return;
+      }
+      setStatus('error');
+      setError(err instanceof Error ? err : new Error('Device login failed'));
+    }
+  }, [loginWithDeviceCode]);
+
+  // Stop polling when the component unmounts
+  useEffect(() => () => activeRef.current?.cancel(), []);
+
+  return {
+    status,
+    userCode: authorization?.userCode ?? null,
+    verificationUri: authorization?.verificationUri ?? null,
+    verificationUriComplete: authorization?.verificationUriComplete ?? null,
+    error,
+    start,
+    cancel
+  };
 };
\ No newline at end of file
@@ -2,6 +2,13 @@
 export { BlitzWareAuthClient } from './BlitzWareAuthClient';
 export { BlitzWareAuthProvider, useBlitzWareAuth } from './context/BlitzWareAuthContext';
 
+// Storage exports
+export {
+  SecureStoreTokenStorage,
+  AsyncStorageTokenStorage,
+  MemoryTokenStorage
+} from './storage';
+
 // Hook exports
 export {
   useUser,
@@ -13,7 +20,11 @@ export {
   useLogin,
   useLogout,
   useRefresh,
-  useValidateSession
+  useValidateSession,
+  useAuthenticatedAxios,
+  useAuthFetch,
+  useDeviceCodeLogin,
+  useGrantedScopes
 } from './hooks';
 
 // Utility exports
@@ -36,7 +47,29 @@ export type {
   TokenSet,
   AuthorizeResult,
   BlitzWareAuthContextValue,
-  BlitzWareProviderProps
+  BlitzWareProviderProps,
+  TokenStorage,
+  IdTokenClaims,
+  BlitzWareAuthEvents,
+  BlitzWareAuthEvent,
+  BlitzWareAuthEventHandler,
+  IntrospectionPolicy,
+  LogoutResult,
+  LogoutOptions,
+  LoginOptions,
+  DeviceAuthorization,
+  DeviceCodeLoginStatus,
+  AccessTokenOptions,
+  TokenExchangeOptions,
+  TokenExchangeResult,
+  ServerMetadata,
+  BlitzWareErrorDetails,
+  RetryPolicy,
+  Logger,
+  LogLevel,
+  AuthInstrumentation,
+  AuthSpan,
+  AuthSpanAttributes
 } from './types';
 
-export { BlitzWareError, AuthErrorCode } from './types';
\ No newline at end of file
+export { BlitzWareError, AuthErrorCode, TokenTypeUri, SpanStatusCode } from './types';
\ No newline at end of file
@@ -0,0 +1,113 @@
+import {
+  AuthInstrumentation,
+  AuthSpan,
+  AuthSpanAttributes,
+  BlitzWareError,
+  SpanStatusCode,
+} from "../types";
+import { AuthLogger } from "../logger";
+
+/**
+ * A span that is being recorded. Attributes must never hold token values.
+ */
+export class ActiveSpan {
+  private name: string;
+  private startTime = Date.now();
+  private attributes: AuthSpanAttributes;
+  private onEnd: (span: AuthSpan) => void;
+  private ended = false;
+
+  constructor(
+    name: string,
+    attributes: AuthSpanAttributes,
+    onEnd: (span: AuthSpan) => void
+  ) {
+    this.name = name;
+    this.attributes = { ...attributes };
+    this.onEnd = onEnd;
+  }
+
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  /**
+   * Time one phase of the operation, recorded as `auth.<phase>.duration_ms`
+   */
+  async measure<T>(phase: string, operation: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await operation();
+    } finally {
+      this.setAttribute(`auth.${phase}.duration_ms`, Date.now() - start);
+    }
+  }
+
+  /**
+   * Finish the span; pass the error if the operation failed
+   */
+  end(error?: unknown): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    const endTime = Date.now();
+    const span: AuthSpan = {
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      duration: endTime - this.startTime,
+      status: { code: SpanStatusCode.OK },
+      attributes: this.attributes,
+    };
+
+    if (error !== undefined) {
+      // Only the code is reported; messages may echo server responses
+      const code =
+        error instanceof BlitzWareError && error.code
+          ? error.code
+          : "unknown_error";
+      span.status = { code: SpanStatusCode.ERROR, message: code };
+      span.attributes["auth.error_code"] = code;
+      if (error instanceof BlitzWareError) {
+        span.attributes["auth.retryable"] = error.isRetryable;
+        if (error.statusCode !== undefined) {
+          span.attributes["http.response.status_code"] = error.statusCode;
+        }
+      }
+    }
+
+    this.onEnd(span);
+  }
+}
+
+/**
+ * Creates spans and hands finished ones to the configured instrumentation
+ */
+export class SpanRecorder {
+  private instrumentation?: AuthInstrumentation;
+  private logger: AuthLogger;
+
+  constructor(
+    instrumentation: AuthInstrumentation | undefined,
+    logger: AuthLogger
+  ) {
+    this.instrumentation = instrumentation;
+    this.logger = logger;
+  }
+
+  start(name: string, attributes: AuthSpanAttributes = {}): ActiveSpan {
+    return new ActiveSpan(name, attributes, (span) => {
+      if (!this.instrumentation) {
+        return;
+      }
+      try {
+        this.instrumentation.onSpan(span);
+      } catch (error) {
+        // Failing instrumentation must not break the auth flow
+        this.logger.warn(`Instrumentation failed for "${span.name}":`, error);
+      }
+    });
+  }
+}
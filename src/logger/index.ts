@@ -0,0 +1,158 @@
+import axios from "axios";
+import { BlitzWareError, LogLevel, Logger } from "../types";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const REDACTED = "[REDACTED]";
+
+// Keys whose values are secrets, in snake_case, camelCase and header form
+const SENSITIVE_KEYS = new Set(
+  [
+    "access_token",
+    "accessToken",
+    "refresh_token",
+    "refreshToken",
+    "id_token",
+    "idToken",
+    "subject_token",
+    "subjectToken",
+    "actor_token",
+    "token",
+    "code",
+    "code_verifier",
+    "codeVerifier",
+    "device_code",
+    "deviceCode",
+    "client_secret",
+    "clientSecret",
+    "password",
+    "authorization",
+    "dpop",
+    "cookie",
+  ].map((key) => key.toLowerCase())
+);
+
+const JWT_PATTERN = /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+const SENSITIVE_PARAM_PATTERN =
+  /\b(access_token|refresh_token|id_token|subject_token|code|code_verifier|device_code|token)=[^&#\s"]+/g;
+const AUTHORIZATION_PATTERN = /\b(Bearer|DPoP)\s+[\w.~+/-]+=*/g;
+
+const MAX_DEPTH = 5;
+
+const redactString = (value: string): string =>
+  value
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(SENSITIVE_PARAM_PATTERN, `$1=${REDACTED}`)
+    .replace(AUTHORIZATION_PATTERN, `$1 ${REDACTED}`);
+
+/**
+ * Remove tokens, authorization codes and PKCE verifiers from a value before it is logged.
+ * Axios errors are reduced to method, URL and status, so request bodies never reach the log.
+ */
+export const redact = (
+  value: unknown,
+  depth = 0,
+  seen = new WeakSet<object>()
+): unknown => {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return "[...]";
+  }
+  seen.add(value);
+
+  if (axios.isAxiosError(value)) {
+    return {
+      name: "AxiosError",
+      message: redactString(value.message),
+      code: value.code,
+      method: value.config?.method?.toUpperCase(),
+      url: value.config?.url && redactString(value.config.url),
+      status: value.response?.status,
+    };
+  }
+
+  if (value instanceof BlitzWareError) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      code: value.code,
+      statusCode: value.statusCode,
+      oauthError: value.oauthError,
+      isRetryable: value.isRetryable,
+      cause: redact(value.cause, depth + 1, seen),
+    };
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    result[key] = SENSITIVE_KEYS.has(key.toLowerCase())
+      ? REDACTED
+      : redact(item, depth + 1, seen);
+  });
+  return result;
+};
+
+const consoleLogger: Logger = {
+  debug: (message, ...args) => console.debug(`BlitzWare: ${message}`, ...args),
+  info: (message, ...args) => console.info(`BlitzWare: ${message}`, ...args),
+  warn: (message, ...args) => console.warn(`BlitzWare: ${message}`, ...args),
+  error: (message, ...args) => console.error(`BlitzWare: ${message}`, ...args),
+};
+
+/**
+ * Filters log calls by level and redacts their arguments before handing them
+ * to the configured logger (the console by default)
+ */
+export class AuthLogger {
+  private logger: Logger;
+  private minLevel: number;
+
+  constructor(logger: Logger = consoleLogger, level: LogLevel = "warn") {
+    this.logger = logger;
+    this.minLevel = LOG_LEVELS.indexOf(level);
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.log("debug", message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.log("info", message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.log("warn", message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.log("error", message, args);
+  }
+
+  private log(level: LogLevel, message: string, args: unknown[]): void {
+    if (LOG_LEVELS.indexOf(level) < this.minLevel) {
+      return;
+    }
+
+    try {
+      this.logger[level](
+        redactString(message),
+        ...args.map((arg) => redact(arg))
+      );
+    } catch {
+      // A failing logger must not break the auth flow
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { RetryPolicy } from "../types";
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  attempts: 3,
+  baseDelay: 500,
+  jitter: 0.5,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+// Never wait longer than this, even when the server asks for it
+const MAX_RETRY_DELAY = 30000;
+
+type RetryRequestConfig = InternalAxiosRequestConfig & {
+  _blitzwareAttempt?: number;
+};
+
+/**
+ * Fill in the defaults for a configured retry policy
+ */
+export const resolveRetryPolicy = (
+  policy: RetryPolicy = {}
+): ResolvedRetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...policy,
+  attempts: Math.max(1, policy.attempts ?? DEFAULT_RETRY_POLICY.attempts),
+});
+
+/**
+ * Milliseconds to wait according to a Retry-After value: delay-seconds or an HTTP-date
+ */
+const parseRetryAfter = (retryAfter?: string | null): number => {
+  if (!retryAfter) {
+    return NaN;
+  }
+  if (/^\s*\d+\s*$/.test(retryAfter)) {
+    return parseInt(retryAfter, 10) * 1000;
+  }
+  return Math.max(Date.parse(retryAfter) - Date.now(), 0);
+};
+
+/**
+ * Delay before the given retry (1-based): exponential backoff plus random jitter.
+ * A Retry-After value (seconds or HTTP-date) raises the delay.
+ */
+export const getRetryDelay = (
+  policy: ResolvedRetryPolicy,
+  retry: number,
+  retryAfter?: string | null
+): number => {
+  const backoff = policy.baseDelay * 2 ** (retry - 1);
+  const delay = backoff + backoff * policy.jitter * Math.random();
+  const retryAfterMs = parseRetryAfter(retryAfter);
+
+  return Math.min(
+    isNaN(retryAfterMs) ? delay : Math.max(delay, retryAfterMs),
+    MAX_RETRY_DELAY
+  );
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying it with backoff while it fails with a retryable error
+ */
+export const withRetry = async <T>(
+  policy: ResolvedRetryPolicy,
+  operation: () => Promise<T>,
+  isRetryable: (error: unknown) => boolean
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.attempts || !isRetryable(error)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(policy, attempt));
+    }
+  }
+};
+
+/**
+ * Retry requests of an axios instance on network errors and retryable statuses.
+ * Responses accepted by validateStatus are retried too when their status is retryable.
+ * @param instance - The axios instance.
+ * @param policy - The retry policy.
+ * @param beforeRetry - Called before a request is sent again, e.g. to re-sign it.
+ */
+export const attachRetryInterceptor = (
+  instance: AxiosInstance,
+  policy: ResolvedRetryPolicy,
+  beforeRetry?: (config: InternalAxiosRequestConfig) => Promise<void>
+): void => {
+  const retry = async (
+    config: RetryRequestConfig,
+    retryAfter?: string | null
+  ) => {
+    const attempt = config._blitzwareAttempt ?? 1;
+    config._blitzwareAttempt = attempt + 1;
+    await sleep(getRetryDelay(policy, attempt, retryAfter));
+    await beforeRetry?.(config);
+    return instance.request(config);
+  };
+
+  const canRetry = (config: RetryRequestConfig) =>
+    (config._blitzwareAttempt ?? 1) < policy.attempts;
+
+  instance.interceptors.response.use(
+    (response) => {
+      const config = response.config as RetryRequestConfig;
+      if (
+        !policy.retryableStatusCodes.includes(response.status) ||
+        !canRetry(config)
+      ) {
+        return response;
+      }
+      return retry(config, response.headers["retry-after"]);
+    },
+    (error) => {
+      const config = error?.config as RetryRequestConfig | undefined;
+      if (!axios.isAxiosError(error) || !config || !canRetry(config)) {
+        throw error;
+      }
+
+      // Without a response the request failed on the network; cancellations are final
+      const retryable = error.response
+        ? policy.retryableStatusCodes.includes(error.response.status)
+        : !axios.isCancel(error);
+      if (!retryable) {
+        throw error;
+      }
+
+      return retry(config, error.response?.headers["retry-after"]);
+    }
+  );
+};
@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { TokenStorage } from "../types";
+
+/**
+ * Token storage backed by Expo SecureStore (Keychain on iOS, Keystore on Android).
+ * SecureStore only accepts alphanumeric characters, ".", "-" and "_" in keys,
+ * so any other character is replaced with "_".
+ */
+export class SecureStoreTokenStorage implements TokenStorage {
+  private toSecureKey(key: string): string {
+    return key.replace(/[^A-Za-z0-9._-]/g, "_");
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return SecureStore.getItemAsync(this.toSecureKey(key));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await SecureStore.setItemAsync(this.toSecureKey(key), value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await SecureStore.deleteItemAsync(this.toSecureKey(key));
+  }
+}
+
+/**
+ * Token storage backed by AsyncStorage (unencrypted)
+ */
+export class AsyncStorageTokenStorage implements TokenStorage {
+  async getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+  }
+}
+
+/**
+ * Token storage that keeps everything in memory only.
+ * Nothing survives an app restart; useful for kiosk builds and tests.
+ */
+export class MemoryTokenStorage implements TokenStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? (this.items.get(key) as string) : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
@@ -9,9 +9,245 @@ export interface BlitzWareUser {
 export interface BlitzWareConfig {
   clientId: string;
   redirectUri: string;
-  responseType?: "code" | "token";
+  /**
+   * "code" (authorization code + PKCE, default), "code id_token" (hybrid; the
+   * front-channel ID token is checked with c_hash) or "token" (implicit; no refresh token)
+   */
+  responseType?: "code" | "token" | "code id_token";
   authBaseUrl?: string;
   scopes?: string[];
+  /**
+   * Where tokens, the user and the expiry are persisted.
+   * Defaults to SecureStore for access/refresh tokens and AsyncStorage for the rest.
+   */
+  storage?: TokenStorage;
+  /** Allowed clock skew in seconds when validating ID token exp/iat (default 60) */
+  idTokenLeeway?: number;
+  /**
+   * Seconds before expiry at which an access token already counts as expired (default 0).
+   * Expiry checks also correct for the device clock offset learned from the server.
+   */
+  clockSkewLeeway?: number;
+  /** Seconds the stored user is reused before getUser() fetches it again (default: no expiry) */
+  userCacheTtl?: number;
+  /** Refresh tokens in the background before they expire (default false) */
+  autoRefresh?: boolean;
+  /** Seconds before expiry at which the background refresh runs (default 60) */
+  autoRefreshBeforeExpiry?: number;
+  /** Defaults merged into the options of every login() call */
+  defaultLoginOptions?: Omit<LoginOptions, "state">;
+  /** How access tokens are validated with the server (default "always") */
+  introspectionPolicy?: IntrospectionPolicy;
+  /**
+   * Bind tokens to a per-install key pair with DPoP (RFC 9449) (default false).
+   * Token, refresh and introspection requests then carry DPoP proofs.
+   */
+  dpop?: boolean;
+  /**
+   * Send authorization parameters back-channel with Pushed Authorization
+   * Requests (RFC 9126) (default false). Login fails if the server has no PAR endpoint.
+   */
+  usePAR?: boolean;
+  /** Seconds the persisted discovery document is used before revalidation (default 86400) */
+  discoveryCacheTtl?: number;
+  /**
+   * Use the default endpoint paths when the discovery document cannot be loaded
+   * (default false). Each fallback emits a "discoveryFallback" event.
+   */
+  allowDiscoveryFallback?: boolean;
+  /** How failed requests to the authorization server are retried */
+  retryPolicy?: RetryPolicy;
+  /** Receives the SDK's log output (default: the console). Arguments are redacted. */
+  logger?: Logger;
+  /** Lowest level that is logged (default "warn") */
+  logLevel?: LogLevel;
+  /** Trace every auth step; shorthand for logLevel "debug" */
+  debug?: boolean;
+  /** Receives a span for every login, refresh, introspection and logout */
+  instrumentation?: AuthInstrumentation;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Log sink for the SDK, e.g. a crash reporter.
+ * Tokens, codes and PKCE verifiers are redacted before they reach it.
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Span status, with the same values as the OpenTelemetry SpanStatusCode
+ */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+export type AuthSpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A finished auth operation. Times are epoch milliseconds; attributes never hold tokens.
+ */
+export interface AuthSpan {
+  /** "login", "refreshAccessToken", "introspectToken" or "logout" */
+  name: string;
+  startTime: number;
+  endTime: number;
+  /** Duration in milliseconds */
+  duration: number;
+  /** On failure, the message is the AuthErrorCode */
+  status: { code: SpanStatusCode; message?: string };
+  attributes: AuthSpanAttributes;
+}
+
+/**
+ * Receives spans for auth operations, e.g. to forward them to an OpenTelemetry tracer
+ */
+export interface AuthInstrumentation {
+  onSpan(span: AuthSpan): void;
+}
+
+/**
+ * Authorization server metadata from the discovery document
+ */
+export interface ServerMetadata {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  jwks_uri?: string;
+  scopes_supported?: string[];
+  response_types_supported?: string[];
+  grant_types_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Per-call authorization request options for login()
+ */
+export interface LoginOptions {
+  prompt?: "none" | "login" | "consent" | "select_account";
+  /** Prefills the login form, e.g. with an email address */
+  loginHint?: string;
+  /** Space-separated preferred UI languages, e.g. "nl en" */
+  uiLocales?: string;
+  /** Maximum authentication age in seconds */
+  maxAge?: number;
+  acrValues?: string;
+  /** Custom state; a random value is generated when omitted */
+  state?: string;
+  /** Additional authorization request parameters */
+  extraParams?: Record<string, string>;
+}
+
+/**
+ * Selects a resource-specific access token
+ */
+export interface AccessTokenOptions {
+  /** Resource indicator (RFC 8707) of the API the token is for */
+  audience?: string;
+  scopes?: string[];
+}
+
+/**
+ * Token type identifiers for token exchange (RFC 8693)
+ */
+export enum TokenTypeUri {
+  ACCESS_TOKEN = "urn:ietf:params:oauth:token-type:access_token",
+  REFRESH_TOKEN = "urn:ietf:params:oauth:token-type:refresh_token",
+  ID_TOKEN = "urn:ietf:params:oauth:token-type:id_token",
+  JWT = "urn:ietf:params:oauth:token-type:jwt",
+}
+
+export interface TokenExchangeOptions {
+  subjectToken: string;
+  subjectTokenType: TokenTypeUri | string;
+  requestedTokenType?: TokenTypeUri | string;
+  /** Logical name of the service the token is for */
+  audience?: string;
+  scopes?: string[];
+  /** Store the result as the current BlitzWare session (default false) */
+  persist?: boolean;
+}
+
+export interface TokenExchangeResult {
+  accessToken: string;
+  issuedTokenType: string;
+  tokenType?: string;
+  expiresIn?: number;
+  refreshToken?: string;
+  idToken?: string;
+  scope?: string;
+  /** The session user, when the result was persisted */
+  user?: BlitzWareUser;
+}
+
+/**
+ * Pending device authorization grant (RFC 8628)
+ */
+export interface DeviceAuthorization {
+  /** Code the user enters at the verification URI */
+  userCode: string;
+  verificationUri: string;
+  /** Verification URI with the user code included, e.g. for a QR code */
+  verificationUriComplete?: string;
+  /** Seconds until the device code expires */
+  expiresIn: number;
+  /** Polling interval in seconds */
+  interval: number;
+  /** Poll until approved; resolves with the user and stores tokens like login() */
+  waitForUser: () => Promise<BlitzWareUser>;
+  /** Stop polling; waitForUser() rejects */
+  cancel: () => void;
+}
+
+export type DeviceCodeLoginStatus =
+  | "idle"
+  | "requesting"
+  | "polling"
+  | "success"
+  | "error";
+
+/**
+ * Access token validation policy
+ * - always: introspect on every validation
+ * - ttl: cache the introspection result for `ttl` seconds (default 30)
+ * - local-only: trust the local JWT expiry check and never introspect
+ */
+export interface IntrospectionPolicy {
+  mode: "always" | "ttl" | "local-only";
+  ttl?: number;
+}
+
+/**
+ * Retry policy for requests to the authorization server.
+ * Network errors and the listed HTTP statuses are retried with exponential backoff.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first; 1 disables retries (default 3) */
+  attempts?: number;
+  /** Delay in ms before the first retry, doubled for each further retry (default 500) */
+  baseDelay?: number;
+  /** Random extra delay as a fraction of the backoff, 0 to 1 (default 0.5) */
+  jitter?: number;
+  /** HTTP statuses that are retried (default 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Key/value storage used to persist tokens and user data
+ */
+export interface TokenStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
 }
 
 export interface TokenIntrospectionResponse {
@@ -28,6 +264,61 @@ export interface TokenIntrospectionResponse {
   [key: string]: any;
 }
 
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  c_hash?: string;
+  [key: string]: any;
+}
+
+/**
+ * Payloads for events emitted by BlitzWareAuthClient
+ */
+export interface BlitzWareAuthEvents {
+  login: { user: BlitzWareUser };
+  logout: { user: BlitzWareUser | null };
+  tokenRefreshed: { expiresAt?: number };
+  refreshFailed: { error: BlitzWareError };
+  userUpdated: {
+    user: BlitzWareUser;
+    previousUser: BlitzWareUser | null;
+    /** Profile fields that changed, e.g. "roles" */
+    changedFields: string[];
+  };
+  sessionExpired: { error: BlitzWareError };
+  discoveryFallback: { error: BlitzWareError };
+  error: { error: BlitzWareError };
+}
+
+export type BlitzWareAuthEvent = keyof BlitzWareAuthEvents;
+
+export type BlitzWareAuthEventHandler<E extends BlitzWareAuthEvent> = (
+  payload: BlitzWareAuthEvents[E]
+) => void;
+
+export interface LogoutOptions {
+  /** Also end the hosted login session in the system browser */
+  federated?: boolean;
+  /** Where the end-session endpoint redirects back to (defaults to redirectUri) */
+  postLogoutRedirectUri?: string;
+}
+
+/**
+ * Outcome of logout(); local tokens are cleared even when revocation fails
+ */
+export interface LogoutResult {
+  refreshTokenRevoked: boolean;
+  accessTokenRevoked: boolean;
+  /** Whether the browser session was ended (only for federated logout) */
+  endSessionCompleted: boolean;
+  errors: BlitzWareError[];
+}
+
 export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -56,29 +347,74 @@ export interface AuthorizeResult {
 }
 
 export interface BlitzWareAuthContextValue extends AuthState {
-  login: () => Promise<void>;
-  logout: () => Promise<void>;
-  getAccessToken: () => Promise<string | null>;
+  login: (options?: LoginOptions) => Promise<void>;
+  loginWithDeviceCode: () => Promise<DeviceAuthorization>;
+  requestScopes: (
+    scopes: string[],
+    options?: LoginOptions
+  ) => Promise<string[]>;
+  /** Scopes the user has consented to */
+  grantedScopes: string[];
+  logout: (options?: LogoutOptions) => Promise<LogoutResult>;
+  getAccessToken: (options?: AccessTokenOptions) => Promise<string | null>;
   hasRole: (role: string) => boolean;
   refresh: () => Promise<void>;
   validateSession: () => Promise<boolean>;
+  createAuthenticatedAxios: (config?: CreateAxiosDefaults) => AxiosInstance;
+  fetchWithAuth: (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ) => Promise<Response>;
+  /** DPoP proof for a request to your API; requires dpop: true */
+  createDpopProof: (
+    method: string,
+    url: string,
+    accessToken?: string
+  ) => Promise<string>;
+  /** Fetch the user from the server, e.g. after roles changed */
+  reloadUser: () => Promise<BlitzWareUser>;
 }
 
 import { ReactNode } from "react";
+import { AxiosInstance, CreateAxiosDefaults } from "axios";
 
 export interface BlitzWareProviderProps {
   children: ReactNode;
   config: BlitzWareConfig;
 }
 
+/**
+ * Details of a failed request carried by BlitzWareError
+ */
+export interface BlitzWareErrorDetails {
+  /** OAuth error value from the server, e.g. "invalid_grant" */
+  oauthError?: string;
+  /** OAuth error_description from the server */
+  errorDescription?: string;
+  /** The original error */
+  cause?: unknown;
+  /** Whether repeating the same request may succeed (network errors, 429, 5xx) */
+  isRetryable?: boolean;
+}
+
 export class BlitzWareError extends Error {
+  public oauthError?: string;
+  public errorDescription?: string;
+  public cause?: unknown;
+  public isRetryable: boolean;
+
   constructor(
     message: string,
     public code?: string,
-    public statusCode?: number
+    public statusCode?: number,
+    details: BlitzWareErrorDetails = {}
   ) {
     super(message);
     this.name = "BlitzWareError";
+    this.oauthError = details.oauthError;
+    this.errorDescription = details.errorDescription;
+    this.cause = details.cause;
+    this.isRetryable = details.isRetryable ?? false;
   }
 }
 
@@ -92,5 +428,19 @@ export enum AuthErrorCode {
   USER_INFO_FAILED = "user_info_failed",
   STORAGE_ERROR = "storage_error",
   INTROSPECTION_FAILED = "introspection_failed",
+  ID_TOKEN_INVALID = "id_token_invalid",
+  REVOCATION_FAILED = "revocation_failed",
+  STATE_MISMATCH = "state_mismatch",
+  DEVICE_AUTHORIZATION_FAILED = "device_authorization_failed",
+  DEVICE_CODE_EXPIRED = "device_code_expired",
+  TOKEN_EXCHANGE_FAILED = "token_exchange_failed",
+  PUSHED_AUTHORIZATION_FAILED = "pushed_authorization_failed",
+  DISCOVERY_FAILED = "discovery_failed",
+  LOGIN_CANCELLED = "login_cancelled",
+  INVALID_GRANT = "invalid_grant",
+  CONSENT_REQUIRED = "consent_required",
+  INTERACTION_REQUIRED = "interaction_required",
+  LOGIN_REQUIRED = "login_required",
+  ACCESS_DENIED = "access_denied",
   UNKNOWN_ERROR = "unknown_error",
 }
@@ -68,13 +68,20 @@ export const getUserDisplayName = (user: BlitzWareUser | null): string => {
 
 /**
  * Check if token is expired
+ * @param expiresAt - Expiry in milliseconds, e.g. TokenSet.expiresAt
+ * @param leeway - Seconds before expiry at which the token already counts as expired
+ * @param clockOffset - Milliseconds between server and device clock, see BlitzWareAuthClient.getClockOffset()
  */
-export const isTokenExpired = (expiresAt: number | undefined): boolean => {
+export const isTokenExpired = (
+  expiresAt: number | undefined,
+  leeway: number = 0,
+  clockOffset: number = 0
+): boolean => {
   if (!expiresAt) {
     return false;
   }
 
-  return Date.now() >= expiresAt;
+  return Date.now() + clockOffset >= expiresAt - leeway * 1000;
 };
 
 /**